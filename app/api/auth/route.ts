@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, clearSessionCookie, getCurrentUser, setSessionCookie } from '@/app/lib/auth';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+
+// A username and password, with room to spare.
+const MAX_SIGN_IN_BODY_BYTES = 4 * 1024;
+
+// Who is signed in (null when nobody is).
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ user: getCurrentUser(request) });
+}
+
+// Sign in.
+export async function POST(request: NextRequest) {
+  try {
+    const read = await readJson(request, MAX_SIGN_IN_BODY_BYTES);
+    if ('response' in read) return read.response;
+    const { username, password } = (read.body ?? {}) as Record<string, unknown>;
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return validationError('Username and password are required');
+    }
+
+    const user = authenticate(username, password);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Invalid username or password');
+    }
+
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, user);
+    return response;
+  } catch (error) {
+    console.error('Failed to sign in:', error);
+    return apiError(500, 'internal', 'Failed to sign in');
+  }
+}
+
+// Sign out.
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canModifyRecipe, newRevision, toRecipeInput } from '@/app/lib/recipes';
+import { getRecipeStore } from '@/app/lib/storage';
+import { getCurrentUser } from '@/app/lib/auth';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+import { SMALL_BODY_BYTES } from '@/app/lib/schema';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const revisions = await getRecipeStore().listRevisions(id);
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Failed to fetch recipe history:', error);
+    return apiError(500, 'internal', 'Failed to fetch recipe history');
+  }
+}
+
+// Restores the recipe's content to an earlier revision. This is saved like any other edit: it needs
+// the version the client last saw, and is itself recorded in the history.
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to restore revisions');
+    }
+
+    const { id } = await params;
+    const read = await readJson(request, SMALL_BODY_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const { revisionId, version } = (read.body ?? {}) as Record<string, unknown>;
+
+    if (typeof revisionId !== 'string' || typeof version !== 'number') {
+      return validationError('Revision ID and version are required', {
+        ...(typeof revisionId !== 'string' && { revisionId: 'Revision ID is required' }),
+        ...(typeof version !== 'number' && { version: 'Version is required' }),
+      });
+    }
+
+    const store = getRecipeStore();
+    const existing = await store.get(id);
+
+    if (!existing) {
+      return apiError(404, 'not_found', 'Recipe not found');
+    }
+
+    if (!canModifyRecipe(user, existing)) {
+      return apiError(403, 'forbidden', 'Only the owner or an admin can restore this recipe');
+    }
+
+    const revision = (await store.listRevisions(id)).find((r) => r.id === revisionId);
+
+    if (!revision) {
+      return apiError(404, 'not_found', 'Revision not found');
+    }
+
+    const result = await store.update(
+      {
+        ...existing,
+        ...toRecipeInput(revision.snapshot),
+        version: version + 1,
+        updatedAt: Date.now(),
+      },
+      version
+    );
+
+    if (result.status === 'not-found') {
+      return apiError(404, 'not_found', 'Recipe not found');
+    }
+
+    if (result.status === 'conflict') {
+      return apiError(409, 'conflict', 'Recipe was changed by someone else', {
+        current: result.current,
+      });
+    }
+
+    await store.addRevision(newRevision(result.recipe, 'restore', user.id));
+
+    return NextResponse.json(result.recipe);
+  } catch (error) {
+    console.error('Failed to restore revision:', error);
+    return apiError(500, 'internal', 'Failed to restore revision');
+  }
+}
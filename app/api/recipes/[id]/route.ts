@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRecipeStore } from '@/app/lib/storage';
+import { apiError } from '@/app/lib/http';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const recipe = await getRecipeStore().get(id);
+
+    if (!recipe) {
+      return apiError(404, 'not_found', 'Recipe not found');
+    }
+
+    return NextResponse.json(recipe);
+  } catch (error) {
+    console.error('Failed to fetch recipe:', error);
+    return apiError(500, 'internal', 'Failed to fetch recipe');
+  }
+}
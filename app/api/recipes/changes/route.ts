@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getRecipeStore } from '@/app/lib/storage';
+import { apiError } from '@/app/lib/http';
+
+// A fingerprint of the whole collection: it changes whenever a recipe is added, saved, deleted or
+// restored. Browsers poll this and only refetch recipes when it moves. Polling, rather than a
+// push channel, works the same whether the routes run in one process or as serverless functions.
+export async function GET() {
+  try {
+    const versions = (await getRecipeStore().list()).map((r) => `${r.id}:${r.version}`).sort();
+    const stamp = createHash('sha1').update(versions.join('\n')).digest('base64url');
+
+    return NextResponse.json({ stamp }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Failed to fetch recipe changes:', error);
+    return apiError(500, 'internal', 'Failed to fetch recipe changes');
+  }
+}
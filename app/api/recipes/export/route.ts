@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { bundleZipEntries, createBundle } from '@/app/lib/bundle';
+import { getRecipeStore } from '@/app/lib/storage';
+import { createZip } from '@/app/lib/zip';
+import { apiError, validationError } from '@/app/lib/http';
+
+// The whole collection as a versioned JSON bundle (the default), or with ?format=zip as a ZIP of
+// Markdown files with front matter. Recipes are readable by everyone, so this is too.
+export async function GET(request: NextRequest) {
+  try {
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+
+    if (format !== 'json' && format !== 'zip') {
+      const message = 'Format must be json or zip';
+      return validationError(message, { format: message });
+    }
+
+    const recipes = await getRecipeStore().list();
+    const bundle = createBundle(recipes);
+    const date = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+
+    if (format === 'zip') {
+      return new NextResponse(Buffer.from(createZip(bundleZipEntries(bundle))), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="recipes-${date}.zip"`,
+        },
+      });
+    }
+
+    return NextResponse.json(bundle, {
+      headers: { 'Content-Disposition': `attachment; filename="recipes-${date}.json"` },
+    });
+  } catch (error) {
+    console.error('Failed to export recipes:', error);
+    return apiError(500, 'internal', 'Failed to export recipes');
+  }
+}
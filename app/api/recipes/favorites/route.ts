@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRecipeStore } from '@/app/lib/storage';
+import { getCurrentUser } from '@/app/lib/auth';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+import { SMALL_BODY_BYTES } from '@/app/lib/schema';
+
+// Favourites are per user: the ids of the signed-in user's favourite recipes.
+export async function GET(request: NextRequest) {
+  try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return NextResponse.json([]);
+    }
+
+    return NextResponse.json(await getRecipeStore().listFavorites(user.id));
+  } catch (error) {
+    console.error('Failed to fetch favourites:', error);
+    return apiError(500, 'internal', 'Failed to fetch favourites');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to keep favourites');
+    }
+
+    const read = await readJson(request, SMALL_BODY_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const { id, favorite } = (read.body ?? {}) as Record<string, unknown>;
+
+    if (typeof id !== 'string' || !id || typeof favorite !== 'boolean') {
+      return validationError('ID and favorite are required', {
+        ...((typeof id !== 'string' || !id) && { id: 'ID is required' }),
+        ...(typeof favorite !== 'boolean' && { favorite: 'Favorite must be true or false' }),
+      });
+    }
+
+    const store = getRecipeStore();
+
+    if (favorite && !(await store.get(id))) {
+      return apiError(404, 'not_found', 'Recipe not found');
+    }
+
+    await store.setFavorite(user.id, id, favorite);
+
+    return NextResponse.json({ id, favorite });
+  } catch (error) {
+    console.error('Failed to update favourite:', error);
+    return apiError(500, 'internal', 'Failed to update favourite');
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImportItem, ImportStrategy, ImportSummary } from '@/app/types/recipe';
+import {
+  IMPORT_STRATEGIES,
+  MAX_BUNDLE_BYTES,
+  countActions,
+  parseBundle,
+  planImport,
+} from '@/app/lib/bundle';
+import { newRevision } from '@/app/lib/recipes';
+import { getRecipeStore } from '@/app/lib/storage';
+import { getCurrentUser } from '@/app/lib/auth';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+
+// Body: { bundle, strategy: "skip" | "overwrite" | "rename", dryRun?: boolean }. Responds with
+// what happened to each recipe in the bundle, or with dryRun, what would happen.
+export async function POST(request: NextRequest) {
+  try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to import recipes');
+    }
+
+    const read = await readJson(request, MAX_BUNDLE_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const body = (read.body ?? {}) as Record<string, unknown>;
+    const { bundle, strategy = 'skip', dryRun = false } = body;
+
+    if (!IMPORT_STRATEGIES.includes(strategy as ImportStrategy)) {
+      const message = `Strategy must be one of ${IMPORT_STRATEGIES.join(', ')}`;
+      return validationError(message, { strategy: message });
+    }
+
+    if (typeof dryRun !== 'boolean') {
+      const message = 'dryRun must be true or false';
+      return validationError(message, { dryRun: message });
+    }
+
+    const parsed = parseBundle(bundle);
+
+    if ('error' in parsed) {
+      return validationError(parsed.error, { bundle: parsed.error });
+    }
+
+    const store = getRecipeStore();
+    const plan = planImport(parsed.entries, await store.list(), strategy as ImportStrategy, user);
+    const items: ImportItem[] = [];
+
+    for (const { recipe, expectedVersion, ...item } of plan) {
+      if (dryRun || !recipe) {
+        items.push(item);
+        continue;
+      }
+
+      if (expectedVersion != null) {
+        const result = await store.update(recipe, expectedVersion);
+
+        // Changed or deleted since the plan was made; leave it alone rather than guess.
+        if (result.status !== 'updated') {
+          const reason = 'Changed by someone else during the import';
+          items.push({ ...item, action: 'skip', reason });
+          continue;
+        }
+
+        await store.addRevision(newRevision(result.recipe, 'update', user.id));
+      } else {
+        await store.create(recipe);
+        await store.addRevision(newRevision(recipe, 'create', user.id));
+      }
+
+      items.push(item);
+    }
+
+    const summary: ImportSummary = {
+      dryRun,
+      strategy: strategy as ImportStrategy,
+      counts: countActions(items),
+      items,
+    };
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Failed to import recipes:', error);
+    return apiError(500, 'internal', 'Failed to import recipes');
+  }
+}
@@ -1,125 +1,176 @@
-import { kv } from '@vercel/kv';
 import { NextRequest, NextResponse } from 'next/server';
 import { Recipe } from '@/app/types/recipe';
+import { canModifyRecipe, newRevision } from '@/app/lib/recipes';
+import { MAX_RECIPE_BODY_BYTES, parseRecipeInput, parseRecipeUpdate } from '@/app/lib/schema';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+import { parseRecipeQuery, searchRecipes } from '@/app/lib/search';
+import { getRecipeStore } from '@/app/lib/storage';
+import { getCurrentUser } from '@/app/lib/auth';
+
+// ?q=&tag=&category=&favorites=&sort=&order=&limit=&cursor= (see parseRecipeQuery). Responds
+// with one page and the cursor for the next.
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseRecipeQuery(new URL(request.url).searchParams);
 
-const RECIPES_KEY = 'recipes';
+    if ('error' in parsed) {
+      return validationError(parsed.error);
+    }
 
-export async function GET() {
-  try {
-    const recipes = await kv.get<Recipe[]>(RECIPES_KEY) || [];
-    return NextResponse.json(recipes);
+    const store = getRecipeStore();
+    let favoriteIds: Set<string> | undefined;
+
+    if (parsed.query.favorites) {
+      const user = getCurrentUser(request);
+
+      if (!user) {
+        return apiError(401, 'unauthorized', 'Sign in to see your favourites');
+      }
+
+      favoriteIds = new Set(await store.listFavorites(user.id));
+    }
+
+    const recipes = await store.list();
+    return NextResponse.json(searchRecipes(recipes, parsed.query, favoriteIds));
   } catch (error) {
     console.error('Failed to fetch recipes:', error);
-    return NextResponse.json([], { status: 500 });
+    return apiError(500, 'internal', 'Failed to fetch recipes');
   }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { title, content } = body;
-
-    if (!title || !content) {
-      return NextResponse.json(
-        { error: 'Title and content are required' },
-        { status: 400 }
-      );
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to add recipes');
+    }
+
+    const read = await readJson(request, MAX_RECIPE_BODY_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const parsed = parseRecipeInput(read.body);
+
+    if ('error' in parsed) {
+      return validationError(parsed.error, parsed.fields);
     }
 
-    const recipes = await kv.get<Recipe[]>(RECIPES_KEY) || [];
-    
     const newRecipe: Recipe = {
       id: crypto.randomUUID(),
-      title,
-      content,
+      ...parsed.input,
+      version: 1,
+      ownerId: user.id,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
 
-    recipes.push(newRecipe);
-    await kv.set(RECIPES_KEY, recipes);
+    const store = getRecipeStore();
+    await store.create(newRecipe);
+    await store.addRevision(newRevision(newRecipe, 'create', user.id));
 
     return NextResponse.json(newRecipe, { status: 201 });
   } catch (error) {
     console.error('Failed to create recipe:', error);
-    return NextResponse.json(
-      { error: 'Failed to create recipe' },
-      { status: 500 }
-    );
+    return apiError(500, 'internal', 'Failed to create recipe');
   }
 }
 
 export async function PUT(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { id, title, content } = body;
-
-    if (!id || !title || !content) {
-      return NextResponse.json(
-        { error: 'ID, title, and content are required' },
-        { status: 400 }
-      );
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to edit recipes');
     }
 
-    const recipes = await kv.get<Recipe[]>(RECIPES_KEY) || [];
-    const index = recipes.findIndex(r => r.id === id);
+    const read = await readJson(request, MAX_RECIPE_BODY_BYTES);
 
-    if (index === -1) {
-      return NextResponse.json(
-        { error: 'Recipe not found' },
-        { status: 404 }
-      );
+    if ('response' in read) {
+      return read.response;
     }
 
-    recipes[index] = {
-      ...recipes[index],
-      title,
-      content,
-      updatedAt: Date.now(),
-    };
+    const parsed = parseRecipeUpdate(read.body);
+
+    if ('error' in parsed) {
+      return validationError(parsed.error, parsed.fields);
+    }
+
+    const { id, version } = parsed;
+    const store = getRecipeStore();
+    const existing = await store.get(id);
+
+    if (existing && !canModifyRecipe(user, existing)) {
+      return apiError(403, 'forbidden', 'Only the owner or an admin can edit this recipe');
+    }
+
+    const result = existing
+      ? await store.update(
+          {
+            ...existing,
+            ...parsed.input,
+            version: version + 1,
+            updatedAt: Date.now(),
+          },
+          version
+        )
+      : { status: 'not-found' as const };
+
+    if (result.status === 'not-found') {
+      return apiError(404, 'not_found', 'Recipe not found');
+    }
 
-    await kv.set(RECIPES_KEY, recipes);
+    // Someone else saved since this client loaded the recipe; hand back their copy.
+    if (result.status === 'conflict') {
+      return apiError(409, 'conflict', 'Recipe was changed by someone else', {
+        current: result.current,
+      });
+    }
+
+    await store.addRevision(newRevision(result.recipe, 'update', user.id));
 
-    return NextResponse.json(recipes[index]);
+    return NextResponse.json(result.recipe);
   } catch (error) {
     console.error('Failed to update recipe:', error);
-    return NextResponse.json(
-      { error: 'Failed to update recipe' },
-      { status: 500 }
-    );
+    return apiError(500, 'internal', 'Failed to update recipe');
   }
 }
 
 export async function DELETE(request: NextRequest) {
   try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to delete recipes');
+    }
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
     if (!id) {
-      return NextResponse.json(
-        { error: 'ID is required' },
-        { status: 400 }
-      );
+      return validationError('ID is required', { id: 'ID is required' });
+    }
+
+    const store = getRecipeStore();
+    const existing = await store.get(id);
+
+    if (existing && !canModifyRecipe(user, existing)) {
+      return apiError(403, 'forbidden', 'Only the owner or an admin can delete this recipe');
     }
 
-    const recipes = await kv.get<Recipe[]>(RECIPES_KEY) || [];
-    const filteredRecipes = recipes.filter(r => r.id !== id);
+    const trashed = existing && await store.delete(id, user.id);
 
-    if (recipes.length === filteredRecipes.length) {
-      return NextResponse.json(
-        { error: 'Recipe not found' },
-        { status: 404 }
-      );
+    if (!trashed) {
+      return apiError(404, 'not_found', 'Recipe not found');
     }
 
-    await kv.set(RECIPES_KEY, filteredRecipes);
+    await store.addRevision(newRevision(trashed.recipe, 'delete', user.id));
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Failed to delete recipe:', error);
-    return NextResponse.json(
-      { error: 'Failed to delete recipe' },
-      { status: 500 }
-    );
+    return apiError(500, 'internal', 'Failed to delete recipe');
   }
 }
\ No newline at end of file
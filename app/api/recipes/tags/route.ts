@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getRecipeStore } from '@/app/lib/storage';
+import { apiError } from '@/app/lib/http';
+
+// Every tag in use with how many recipes have it, most used first, for autocomplete and filters.
+export async function GET() {
+  try {
+    const counts = new Map<string, number>();
+
+    for (const recipe of await getRecipeStore().list()) {
+      for (const tag of recipe.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+
+    const tags = [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+
+    return NextResponse.json(tags);
+  } catch (error) {
+    console.error('Failed to fetch tags:', error);
+    return apiError(500, 'internal', 'Failed to fetch tags');
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canModifyRecipe, newRevision } from '@/app/lib/recipes';
+import { getRecipeStore } from '@/app/lib/storage';
+import { getCurrentUser } from '@/app/lib/auth';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+import { SMALL_BODY_BYTES } from '@/app/lib/schema';
+
+// Deleted recipes the signed-in user could restore: their own, or all of them for an admin.
+export async function GET(request: NextRequest) {
+  try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to see deleted recipes');
+    }
+
+    const trash = await getRecipeStore().listTrash();
+    return NextResponse.json(trash.filter((entry) => canModifyRecipe(user, entry.recipe)));
+  } catch (error) {
+    console.error('Failed to fetch trash:', error);
+    return apiError(500, 'internal', 'Failed to fetch trash');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = getCurrentUser(request);
+
+    if (!user) {
+      return apiError(401, 'unauthorized', 'Sign in to restore recipes');
+    }
+
+    const read = await readJson(request, SMALL_BODY_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const { id } = (read.body ?? {}) as Record<string, unknown>;
+
+    if (typeof id !== 'string' || !id) {
+      return validationError('ID is required', { id: 'ID is required' });
+    }
+
+    const store = getRecipeStore();
+    const entry = (await store.listTrash()).find((e) => e.recipe.id === id);
+
+    if (entry && !canModifyRecipe(user, entry.recipe)) {
+      return apiError(403, 'forbidden', 'Only the owner or an admin can restore this recipe');
+    }
+
+    const restored = entry && await store.restoreFromTrash(id);
+
+    if (!restored) {
+      return apiError(404, 'not_found', 'Recipe not found in the trash');
+    }
+
+    await store.addRevision(newRevision(restored, 'restore', user.id));
+
+    return NextResponse.json(restored);
+  } catch (error) {
+    console.error('Failed to restore recipe:', error);
+    return apiError(500, 'internal', 'Failed to restore recipe');
+  }
+}
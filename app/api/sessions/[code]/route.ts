@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MAX_SESSION_BODY_BYTES,
+  mergeIntoSession,
+  normalizeSessionCode,
+  parseSessionGrid,
+} from '@/app/lib/sessions';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+import { getRecipeStore } from '@/app/lib/storage';
+
+type Params = { params: Promise<{ code: string }> };
+
+// Devices poll this, so it must never be served from a cache.
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+// Writers that keep losing the compare-and-set give up after this many tries.
+const MERGE_ATTEMPTS = 5;
+
+const notFound = () =>
+  apiError(404, 'not_found', 'No kitchen session with that code (it may have expired)');
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const code = normalizeSessionCode((await params).code);
+    const session = code && (await getRecipeStore().getSession(code));
+
+    if (!session) {
+      return notFound();
+    }
+
+    return NextResponse.json(session, { headers: NO_STORE });
+  } catch (error) {
+    console.error('Failed to fetch session:', error);
+    return apiError(500, 'internal', 'Failed to fetch session');
+  }
+}
+
+// Merges the device's grid ({ stopwatches, deleted }) into the session and responds with the
+// result, which the device merges back into its own. Sending what's already there changes nothing.
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const code = normalizeSessionCode((await params).code);
+
+    if (!code) {
+      return notFound();
+    }
+
+    const read = await readJson(request, MAX_SESSION_BODY_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const parsed = parseSessionGrid(read.body);
+
+    if ('error' in parsed) {
+      return validationError(parsed.error, parsed.fields);
+    }
+
+    const store = getRecipeStore();
+
+    for (let attempt = 0; attempt < MERGE_ATTEMPTS; attempt++) {
+      const stored = await store.getSession(code);
+
+      if (!stored) {
+        return notFound();
+      }
+
+      const merged = mergeIntoSession(stored, parsed.grid, Date.now());
+
+      if (merged === stored) {
+        return NextResponse.json(stored, { headers: NO_STORE });
+      }
+
+      const result = await store.updateSession(merged, stored.version);
+
+      if (result.status === 'updated') {
+        return NextResponse.json(merged, { headers: NO_STORE });
+      }
+
+      if (result.status === 'not-found') {
+        return notFound();
+      }
+    }
+
+    return apiError(409, 'conflict', 'The session is busy; try again');
+  } catch (error) {
+    console.error('Failed to update session:', error);
+    return apiError(500, 'internal', 'Failed to update session');
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { KitchenSession } from '@/app/types/timer';
+import { MAX_SESSION_BODY_BYTES, newSessionCode, parseSessionGrid } from '@/app/lib/sessions';
+import { apiError, readJson, validationError } from '@/app/lib/http';
+import { getRecipeStore } from '@/app/lib/storage';
+
+// Codes are short, so a new one can collide with a live session; a few tries are plenty.
+const CODE_ATTEMPTS = 5;
+
+// Starts a kitchen session from the device's current grid ({ stopwatches, deleted }) and responds
+// with it, including the code other devices join with. No sign-in needed: the code is the key.
+export async function POST(request: NextRequest) {
+  try {
+    const read = await readJson(request, MAX_SESSION_BODY_BYTES);
+
+    if ('response' in read) {
+      return read.response;
+    }
+
+    const parsed = parseSessionGrid(read.body);
+
+    if ('error' in parsed) {
+      return validationError(parsed.error, parsed.fields);
+    }
+
+    const store = getRecipeStore();
+
+    for (let attempt = 0; attempt < CODE_ATTEMPTS; attempt++) {
+      const session: KitchenSession = {
+        code: newSessionCode(),
+        version: 1,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        ...parsed.grid,
+      };
+
+      if (await store.createSession(session)) {
+        return NextResponse.json(session, { status: 201 });
+      }
+    }
+
+    return apiError(500, 'internal', 'Failed to find a free session code');
+  } catch (error) {
+    console.error('Failed to create session:', error);
+    return apiError(500, 'internal', 'Failed to create session');
+  }
+}
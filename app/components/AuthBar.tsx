@@ -0,0 +1,160 @@
+"use client";
+import React, { useState } from "react";
+import { User } from "@/app/types/user";
+
+interface AuthBarProps {
+  user: User | null;
+  onSignIn: (username: string, password: string) => Promise<string | null>;
+  onSignOut: () => void;
+}
+
+// Compact sign-in form, or who is signed in with a sign-out link.
+export default function AuthBar({ user, onSignIn, onSignOut }: AuthBarProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const message = await onSignIn(username, password);
+    setBusy(false);
+    setError(message);
+    if (!message) setPassword("");
+  };
+
+  return (
+    <div className="auth-bar">
+      {user ? (
+        <div className="signed-in">
+          <span>
+            {user.username}
+            {user.role === "admin" && <span className="role"> (admin)</span>}
+          </span>
+          <button className="link" onClick={onSignOut}>
+            Sign out
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={submit}>
+          <p>Sign in to add or edit recipes</p>
+          <input
+            placeholder="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {error && <div className="error">{error}</div>}
+          <button type="submit" disabled={busy || !username || !password}>
+            Sign in
+          </button>
+        </form>
+      )}
+
+      <style jsx>{`
+        .auth-bar {
+          padding: 12px 16px;
+          border-bottom: 1px solid #e5e7eb;
+          font-size: 14px;
+        }
+
+        .signed-in {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          font-weight: 600;
+        }
+
+        .role {
+          color: #6b7280;
+          font-weight: 400;
+        }
+
+        form {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        p {
+          margin: 0;
+          color: #6b7280;
+        }
+
+        input {
+          padding: 6px 8px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 14px;
+        }
+
+        .error {
+          color: #991b1b;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 6px 12px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        button.link {
+          border: none;
+          background: none;
+          padding: 0;
+          color: #2563eb;
+          font-weight: 600;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .auth-bar {
+            border-color: #26272b;
+          }
+
+          .role,
+          p {
+            color: #9ca3af;
+          }
+
+          input {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
+          .error {
+            color: #fecaca;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button.link {
+            background: none;
+            color: #60a5fa;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
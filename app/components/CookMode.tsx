@@ -0,0 +1,329 @@
+"use client";
+import React, { useState } from "react";
+import { Recipe } from "@/app/types/recipe";
+import { TimerRequest } from "@/app/types/timer";
+import { cookStepTimer, cookSteps } from "@/app/lib/recipes";
+import { describeDuration } from "@/app/lib/durations";
+import { MarkdownInline } from "./Markdown";
+
+interface CookModeProps {
+  recipe: Recipe;
+  // Adds a countdown to the stopwatch grid and returns its id.
+  onStartTimer: (timer: TimerRequest) => string;
+  // The timer the Cook click already started for step 1, if that step has one.
+  firstTimerId: string | null;
+  // Ids currently on the grid, so a step whose timer was deleted can start a fresh one.
+  timerIds: string[];
+  onExit: () => void;
+}
+
+// Walks through a recipe one step at a time. Step timers live on the normal stopwatch grid, so
+// moving on to the next step leaves the previous one's timer running alongside.
+export default function CookMode({
+  recipe,
+  onStartTimer,
+  firstTimerId,
+  timerIds,
+  onExit,
+}: CookModeProps) {
+  const steps = cookSteps(recipe);
+  const [index, setIndex] = useState(0);
+  const [done, setDone] = useState<Set<number>>(new Set());
+  // step index -> stopwatch id
+  const [stepTimers, setStepTimers] = useState<Record<number, string>>(
+    firstTimerId != null ? { 0: firstTimerId } : {}
+  );
+
+  const step = steps[index];
+  const timerId = stepTimers[index];
+  const hasTimer = timerId != null && timerIds.includes(timerId);
+
+  const startStepTimer = (i: number) => {
+    const timer = steps[i] && cookStepTimer(recipe, steps[i], i);
+    if (!timer) return;
+    const existing = stepTimers[i];
+    if (existing != null && timerIds.includes(existing)) return;
+    const id = onStartTimer(timer);
+    setStepTimers((prev) => ({ ...prev, [i]: id }));
+  };
+
+  const next = () => {
+    setDone((prev) => new Set(prev).add(index));
+    if (index < steps.length - 1) {
+      setIndex(index + 1);
+      startStepTimer(index + 1);
+    }
+  };
+
+  const toggleDone = (i: number) =>
+    setDone((prev) => {
+      const updated = new Set(prev);
+      if (updated.has(i)) updated.delete(i);
+      else updated.add(i);
+      return updated;
+    });
+
+  if (steps.length === 0) {
+    return (
+      <div className="cook-mode">
+        <p>This recipe has no steps to cook through.</p>
+        <button onClick={onExit}>Exit cook mode</button>
+        <style jsx>{`
+          .cook-mode {
+            padding: 20px;
+            margin-bottom: 20px;
+            border: 1px solid #e5e7eb;
+            border-radius: 16px;
+          }
+        `}</style>
+      </div>
+    );
+  }
+
+  return (
+    <div className="cook-mode">
+      <div className="cook-header">
+        <h2>{recipe.title}</h2>
+        <span className="progress">
+          {done.size}/{steps.length} done
+        </span>
+        <button onClick={onExit}>Exit cook mode</button>
+      </div>
+
+      <ol className="step-dots" aria-label="Steps">
+        {steps.map((_, i) => (
+          <li key={i}>
+            <button
+              className={`${i === index ? "current" : ""} ${done.has(i) ? "done" : ""}`}
+              onClick={() => setIndex(i)}
+              aria-label={`Go to step ${i + 1}${done.has(i) ? " (done)" : ""}`}
+              aria-current={i === index ? "step" : undefined}
+            >
+              {done.has(i) ? "✓" : i + 1}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className={`step ${done.has(index) ? "done" : ""}`}>
+        <div className="step-label">
+          Step {index + 1} of {steps.length}
+        </div>
+        <p className="step-text">
+          <MarkdownInline text={step.text} />
+        </p>
+
+        {step.duration != null && (
+          <div className="step-timer">
+            {hasTimer ? (
+              <span>⏱ {describeDuration(step.duration)} timer is on the grid below</span>
+            ) : (
+              <button className="primary" onClick={() => startStepTimer(index)}>
+                Start {describeDuration(step.duration)} timer
+              </button>
+            )}
+            {step.maxDuration != null && (
+              <span className="range">up to {describeDuration(step.maxDuration)}</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="cook-actions">
+        <button onClick={() => setIndex(index - 1)} disabled={index === 0}>
+          ← Previous
+        </button>
+        <label className="done-toggle">
+          <input type="checkbox" checked={done.has(index)} onChange={() => toggleDone(index)} />
+          Done
+        </label>
+        <button className="primary" onClick={next}>
+          {index < steps.length - 1 ? "Next →" : "Finish"}
+        </button>
+      </div>
+
+      <style jsx>{`
+        .cook-mode {
+          background: #fff;
+          border: 2px solid #111827;
+          border-radius: 16px;
+          padding: 16px 20px;
+          margin-bottom: 20px;
+        }
+
+        .cook-header {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+        }
+
+        .cook-header h2 {
+          margin: 0;
+          flex: 1;
+          font-size: 18px;
+          font-weight: 800;
+        }
+
+        .progress {
+          color: #6b7280;
+          font-size: 14px;
+          font-weight: 600;
+        }
+
+        .step-dots {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+          list-style: none;
+          padding: 0;
+          margin: 12px 0;
+        }
+
+        .step-dots button {
+          width: 32px;
+          height: 32px;
+          padding: 0;
+          border-radius: 50%;
+          font-size: 13px;
+        }
+
+        .step-dots button.done {
+          background: #dcfce7;
+          border-color: #22c55e;
+          color: #15803d;
+        }
+
+        .step-dots button.current {
+          outline: 2px solid #111827;
+          outline-offset: 1px;
+        }
+
+        .step {
+          padding: 12px 0;
+        }
+
+        .step.done .step-text {
+          color: #6b7280;
+        }
+
+        .step-label {
+          color: #6b7280;
+          font-size: 13px;
+          font-weight: 700;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+        }
+
+        .step-text {
+          margin: 8px 0 12px;
+          font-size: 28px;
+          line-height: 1.35;
+          font-weight: 600;
+        }
+
+        .step-timer {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          font-weight: 600;
+        }
+
+        .range {
+          color: #b45309;
+          font-size: 14px;
+        }
+
+        .cook-actions {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          justify-content: space-between;
+          margin-top: 8px;
+        }
+
+        .done-toggle {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-weight: 600;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:hover {
+          background: #f3f4f6;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        button.primary {
+          background: #111827;
+          color: white;
+          border-color: #111827;
+        }
+
+        button.primary:hover {
+          background: #000;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .cook-mode {
+            background: #111214;
+            border-color: #e5e7eb;
+          }
+
+          .progress,
+          .step-label,
+          .step.done .step-text {
+            color: #9ca3af;
+          }
+
+          .step-dots button.current {
+            outline-color: #e5e7eb;
+          }
+
+          .step-dots button.done {
+            background: #052e16;
+            border-color: #22c55e;
+            color: #4ade80;
+          }
+
+          .range {
+            color: #fbbf24;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover {
+            background: #232428;
+          }
+
+          button.primary {
+            background: #e5e7eb;
+            color: #111827;
+            border-color: #e5e7eb;
+          }
+
+          button.primary:hover {
+            background: #fff;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+import React from "react";
+import { formatClock, parseClock } from "@/app/lib/time";
+
+interface DurationInputProps {
+  value: number | null; // ms
+  onChange: (value: number | null) => void;
+  className?: string;
+  placeholder?: string;
+  "aria-label"?: string;
+}
+
+// Text field for "25" (minutes), "mm:ss" or "h:mm:ss". Commits on blur/Enter; clearing it gives null
+// and anything unparseable snaps back to the current value.
+export default function DurationInput({ value, onChange, ...rest }: DurationInputProps) {
+  const text = value != null ? formatClock(value) : "";
+  return (
+    <input
+      // Remount when the value changes elsewhere so the field reflects it.
+      key={text}
+      type="text"
+      inputMode="numeric"
+      defaultValue={text}
+      title="Minutes, mm:ss or h:mm:ss"
+      onBlur={(e) => {
+        const raw = e.target.value.trim();
+        if (!raw) {
+          if (value != null) onChange(null);
+          return;
+        }
+        const ms = parseClock(raw);
+        if (ms != null && ms !== value) onChange(ms);
+        else if (ms == null) e.target.value = text;
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      {...rest}
+    />
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+import React from "react";
+
+interface FavoriteToggleProps {
+  favorite: boolean;
+  onToggle: () => void;
+}
+
+// Star button for marking a recipe as one of the signed-in user's favourites.
+export default function FavoriteToggle({ favorite, onToggle }: FavoriteToggleProps) {
+  return (
+    <button
+      type="button"
+      className={favorite ? "favorite on" : "favorite"}
+      aria-pressed={favorite}
+      aria-label={favorite ? "Remove from favourites" : "Add to favourites"}
+      title={favorite ? "Remove from favourites" : "Add to favourites"}
+      onClick={(e) => {
+        e.stopPropagation(); // it often sits inside a clickable list row
+        onToggle();
+      }}
+    >
+      {favorite ? "★" : "☆"}
+
+      <style jsx>{`
+        .favorite {
+          appearance: none;
+          border: none;
+          background: none;
+          padding: 0 4px;
+          font-size: 18px;
+          line-height: 1;
+          color: #9ca3af;
+          cursor: pointer;
+        }
+
+        .favorite.on {
+          color: #f59e0b;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .favorite {
+            color: #6b7280;
+          }
+
+          .favorite.on {
+            color: #fbbf24;
+          }
+        }
+      `}</style>
+    </button>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+import React, { useState } from "react";
+import { SessionStatus } from "@/app/hooks/useKitchenSession";
+
+interface KitchenSessionBarProps {
+  code: string | null;
+  status: SessionStatus;
+  // Why the device was dropped from its session, or why its changes aren't getting through.
+  error: string | null;
+  onStart: () => Promise<string | null>;
+  onJoin: (code: string) => Promise<string | null>;
+  onLeave: () => void;
+  onDismissError: () => void;
+}
+
+const STATUS_LABELS: Record<SessionStatus, string> = {
+  connecting: "Connecting…",
+  synced: "Live",
+  offline: "Offline: timers keep running here and sync when you're back",
+};
+
+// Start or join a kitchen session, or which one this device is in and whether it's connected.
+export default function KitchenSessionBar({
+  code,
+  status,
+  error,
+  onStart,
+  onJoin,
+  onLeave,
+  onDismissError,
+}: KitchenSessionBarProps) {
+  const [input, setInput] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    onDismissError();
+    const result = await action();
+    setBusy(false);
+    setMessage(result);
+    if (!result) setInput("");
+  };
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    void run(() => onJoin(input));
+  };
+
+  const shown = message ?? error;
+
+  return (
+    <div className="session-bar">
+      {code ? (
+        <div className="joined">
+          <span>
+            Kitchen session <strong className="code">{code}</strong>
+          </span>
+          <span className={`status ${status}`} role="status">
+            {STATUS_LABELS[status]}
+          </span>
+          <button className="link" onClick={onLeave} title="Stop sharing; the timers stay here">
+            Leave
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={join}>
+          <span className="label">Share timers with other devices:</span>
+          <button type="button" onClick={() => run(onStart)} disabled={busy}>
+            Start session
+          </button>
+          <span className="label">or</span>
+          <input
+            placeholder="Join code"
+            aria-label="Session code"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            autoCapitalize="characters"
+            spellCheck={false}
+          />
+          <button type="submit" disabled={busy || !input.trim()}>
+            Join
+          </button>
+        </form>
+      )}
+      {shown && <div className="error">{shown}</div>}
+
+      <style jsx>{`
+        .session-bar {
+          margin: -8px 0 18px;
+          font-size: 14px;
+        }
+
+        .joined,
+        form {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+        }
+
+        .label {
+          color: #6b7280;
+        }
+
+        .code {
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          letter-spacing: 0.1em;
+        }
+
+        .status {
+          border-radius: 9999px;
+          padding: 2px 10px;
+          font-size: 13px;
+          font-weight: 600;
+          background: #f3f4f6;
+          color: #6b7280;
+        }
+
+        .status.synced {
+          background: #f0fdf4;
+          color: #15803d;
+        }
+
+        .status.offline {
+          background: #fffbeb;
+          color: #92400e;
+        }
+
+        input {
+          width: 110px;
+          padding: 6px 8px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 14px;
+          text-transform: uppercase;
+        }
+
+        .error {
+          margin-top: 6px;
+          color: #991b1b;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 6px 12px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        button.link {
+          border: none;
+          background: none;
+          padding: 0;
+          color: #2563eb;
+          font-weight: 600;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .label {
+            color: #9ca3af;
+          }
+
+          .status {
+            background: #1a1b1e;
+            color: #9ca3af;
+          }
+
+          .status.synced {
+            background: #0f2a18;
+            color: #4ade80;
+          }
+
+          .status.offline {
+            background: #2b1d0f;
+            color: #fbbf24;
+          }
+
+          input {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
+          .error {
+            color: #fecaca;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button.link {
+            background: none;
+            color: #60a5fa;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { TimerRequest } from "@/app/types/timer";
+import { Block, Inline, parseInline, parseMarkdown } from "@/app/lib/markdown";
+import RecipeLine from "./RecipeLine";
+
+type TimerHandler = ((timer: TimerRequest) => void) | undefined;
+
+interface MarkdownProps {
+  source: string;
+  // When set, durations in the text become "add timer" chips.
+  onStartTimer?: (timer: TimerRequest) => void;
+  // Checklist boxes are tickable unless read-only. Ticks are kept while the source is unchanged and
+  // never written back to the recipe.
+  readOnly?: boolean;
+}
+
+// Recipe notes rendered from Markdown. Everything becomes React elements, so HTML in the source is
+// shown as text rather than run.
+export default function Markdown({ source, onStartTimer, readOnly = false }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  const [ticks, setTicks] = useState<{ source: string; checked: Map<number, boolean> }>({
+    source,
+    checked: new Map(),
+  });
+  const checked = ticks.source === source ? ticks.checked : new Map<number, boolean>();
+
+  const toggle = (index: number, value: boolean) =>
+    setTicks({ source, checked: new Map(checked).set(index, value) });
+
+  const renderBlocks = (items: Block[]): React.ReactNode =>
+    items.map((block, i) => {
+      switch (block.type) {
+        case "heading": {
+          const Tag = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+          return <Tag key={i}>{renderInline(block.children, onStartTimer)}</Tag>;
+        }
+        case "paragraph":
+          return <p key={i}>{renderInline(block.children, onStartTimer)}</p>;
+        case "blockquote":
+          return <blockquote key={i}>{renderBlocks(block.children)}</blockquote>;
+        case "code":
+          return (
+            <pre key={i}>
+              <code>{block.text}</code>
+            </pre>
+          );
+        case "rule":
+          return <hr key={i} />;
+        case "list": {
+          const children = block.items.map((item, j) => {
+            const task = item.task;
+            const done = task ? (checked.get(task.index) ?? task.checked) : false;
+            return (
+              <li key={j} className={task ? (done ? "task done" : "task") : undefined}>
+                {task ? (
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={done}
+                      disabled={readOnly}
+                      onChange={(e) => toggle(task.index, e.target.checked)}
+                    />
+                    <span>{renderInline(item.children, onStartTimer)}</span>
+                  </label>
+                ) : (
+                  renderInline(item.children, onStartTimer)
+                )}
+                {renderBlocks(item.blocks)}
+              </li>
+            );
+          });
+          return block.ordered ? (
+            <ol key={i} start={block.start}>
+              {children}
+            </ol>
+          ) : (
+            <ul key={i}>{children}</ul>
+          );
+        }
+      }
+    });
+
+  return (
+    <div className="markdown">
+      {renderBlocks(blocks)}
+
+      <style jsx>{`
+        .markdown :global(h3),
+        .markdown :global(h4),
+        .markdown :global(h5),
+        .markdown :global(h6) {
+          margin: 14px 0 6px;
+          font-weight: 700;
+          line-height: 1.3;
+        }
+
+        .markdown :global(h3) {
+          font-size: 18px;
+        }
+
+        .markdown :global(h4) {
+          font-size: 16px;
+        }
+
+        .markdown :global(h5),
+        .markdown :global(h6) {
+          font-size: 14px;
+        }
+
+        .markdown :global(p) {
+          margin: 0 0 10px;
+        }
+
+        .markdown :global(ul),
+        .markdown :global(ol) {
+          margin: 0 0 10px;
+          padding-left: 22px;
+        }
+
+        .markdown :global(li.task) {
+          list-style: none;
+          margin-left: -20px;
+        }
+
+        .markdown :global(li.task label) {
+          display: inline-flex;
+          gap: 6px;
+          align-items: baseline;
+          cursor: pointer;
+        }
+
+        .markdown :global(li.task.done > label span) {
+          text-decoration: line-through;
+          color: #6b7280;
+        }
+
+        .markdown :global(blockquote) {
+          margin: 0 0 10px;
+          padding: 2px 12px;
+          border-left: 3px solid #e5e7eb;
+          color: #4b5563;
+        }
+
+        .markdown :global(pre) {
+          margin: 0 0 10px;
+          padding: 10px 12px;
+          border-radius: 8px;
+          background: #f3f4f6;
+          overflow-x: auto;
+          font-size: 13px;
+        }
+
+        .markdown :global(code) {
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          font-size: 0.9em;
+        }
+
+        .markdown :global(:not(pre) > code) {
+          padding: 1px 4px;
+          border-radius: 4px;
+          background: #f3f4f6;
+        }
+
+        .markdown :global(hr) {
+          border: none;
+          border-top: 1px solid #e5e7eb;
+          margin: 14px 0;
+        }
+
+        .markdown :global(a) {
+          color: #2563eb;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .markdown :global(li.task.done > label span) {
+            color: #9ca3af;
+          }
+
+          .markdown :global(blockquote) {
+            border-color: #26272b;
+            color: #9ca3af;
+          }
+
+          .markdown :global(pre),
+          .markdown :global(:not(pre) > code) {
+            background: #1a1b1e;
+          }
+
+          .markdown :global(hr) {
+            border-color: #26272b;
+          }
+
+          .markdown :global(a) {
+            color: #60a5fa;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
+
+// A single line of inline Markdown (bold, links, code…), e.g. a recipe step.
+export function MarkdownInline({ text, onStartTimer }: { text: string; onStartTimer?: TimerHandler }) {
+  const nodes = useMemo(() => parseInline(text), [text]);
+  return <>{renderInline(nodes, onStartTimer)}</>;
+}
+
+function renderInline(nodes: Inline[], onStartTimer: TimerHandler): React.ReactNode {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <RecipeLine key={i} line={node.text} onStartTimer={onStartTimer} />;
+      case "break":
+        return <br key={i} />;
+      case "code":
+        return <code key={i}>{node.text}</code>;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children, onStartTimer)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children, onStartTimer)}</em>;
+      case "del":
+        return <del key={i}>{renderInline(node.children, onStartTimer)}</del>;
+      case "link": {
+        const external = /^(https?:|mailto:)/i.test(node.href);
+        return (
+          <a
+            key={i}
+            href={node.href}
+            {...(external && { target: "_blank", rel: "noopener noreferrer nofollow" })}
+          >
+            {renderInline(node.children, onStartTimer)}
+          </a>
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,355 @@
+"use client";
+import React, { useState } from "react";
+import { ImportAction, ImportStrategy, ImportSummary } from "@/app/types/recipe";
+import { errorMessage } from "@/app/lib/api";
+import { recipeCache } from "@/app/lib/recipeCache";
+
+interface RecipeBackupProps {
+  onClose: () => void;
+}
+
+const STRATEGIES: { value: ImportStrategy; label: string }[] = [
+  { value: "skip", label: "Skip duplicates" },
+  { value: "overwrite", label: "Overwrite duplicates" },
+  { value: "rename", label: "Import duplicates as copies" },
+];
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "New",
+  overwrite: "Overwrite",
+  rename: "Copy",
+  skip: "Skip",
+  invalid: "Invalid",
+};
+
+// Download the whole collection, or load a backup back in. Imports are previewed with a dry run
+// first, so nothing is written until the user has seen what will happen to each recipe.
+export default function RecipeBackup({ onClose }: RecipeBackupProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<unknown>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>("skip");
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runImport = async (data: unknown, chosen: ImportStrategy, dryRun: boolean) => {
+    setBusy(true);
+    try {
+      setSummary(await recipeCache.importBundle(data, chosen, dryRun));
+      setError(null);
+    } catch (err) {
+      setSummary(null);
+      setError(errorMessage(err, "Failed to import recipes"));
+      console.error(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setSummary(null);
+    try {
+      const data = JSON.parse(await file.text());
+      setBundle(data);
+      await runImport(data, strategy, true);
+    } catch (err) {
+      setBundle(null);
+      setError("That file isn't a JSON backup");
+      console.error(err);
+    }
+  };
+
+  const chooseStrategy = (value: ImportStrategy) => {
+    setStrategy(value);
+    if (bundle != null) runImport(bundle, value, true);
+  };
+
+  const writes = summary
+    ? summary.counts.create + summary.counts.overwrite + summary.counts.rename
+    : 0;
+
+  return (
+    <div className="recipe-backup">
+      <div className="backup-header">
+        <h3>Backup</h3>
+        <button onClick={onClose}>Close</button>
+      </div>
+
+      <section>
+        <h4>Export</h4>
+        <p className="muted">
+          The JSON file can be imported here or on another deployment. The ZIP has a Markdown file
+          per recipe for reading or keeping elsewhere, plus the same JSON.
+        </p>
+        <div className="backup-actions">
+          <a className="button" href="/api/recipes/export" download>
+            Download JSON
+          </a>
+          <a className="button" href="/api/recipes/export?format=zip" download>
+            Download Markdown (ZIP)
+          </a>
+        </div>
+      </section>
+
+      <section>
+        <h4>Import</h4>
+        <div className="backup-actions">
+          <label className="button">
+            {fileName ? "Choose another file…" : "Choose backup file…"}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                openFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {fileName && <span className="muted">{fileName}</span>}
+        </div>
+        <div className="strategies" role="radiogroup" aria-label="When a recipe already exists">
+          {STRATEGIES.map(({ value, label }) => (
+            <label key={value}>
+              <input
+                type="radio"
+                name="import-strategy"
+                checked={strategy === value}
+                onChange={() => chooseStrategy(value)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <p className="muted">
+          A recipe counts as a duplicate when its ID or title (ignoring case) is already taken.
+        </p>
+
+        {error && <div className="backup-error">{error}</div>}
+
+        {summary && (
+          <>
+            <p className="counts">
+              {summary.dryRun ? "Would import" : "Imported"}: {summary.counts.create} new
+              {summary.counts.overwrite > 0 && `, ${summary.counts.overwrite} overwritten`}
+              {summary.counts.rename > 0 && `, ${summary.counts.rename} as copies`}
+              {summary.counts.skip > 0 && ` · ${summary.counts.skip} skipped`}
+              {summary.counts.invalid > 0 && ` · ${summary.counts.invalid} invalid`}
+            </p>
+            <table>
+              <thead>
+                <tr>
+                  <th>Recipe</th>
+                  <th>Action</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.items.map((item) => (
+                  <tr key={item.index} className={item.action}>
+                    <td>{item.title || <em>Untitled</em>}</td>
+                    <td>{ACTION_LABELS[item.action]}</td>
+                    <td className="muted">
+                      {[
+                        item.duplicateOf &&
+                          `Matches “${item.duplicateOf.title}” by ${item.duplicateOf.matchedBy}`,
+                        item.newTitle && `Saved as “${item.newTitle}”`,
+                        item.reason,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {summary.dryRun && (
+              <div className="backup-actions">
+                <button
+                  className="primary"
+                  disabled={busy || writes === 0}
+                  onClick={() => runImport(bundle, strategy, false)}
+                >
+                  Import {writes} recipe{writes === 1 ? "" : "s"}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+
+      <style jsx>{`
+        .recipe-backup {
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+        }
+
+        .backup-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        h3 {
+          margin: 0;
+          font-size: 20px;
+          font-weight: 700;
+        }
+
+        h4 {
+          margin: 0 0 8px;
+          font-size: 12px;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: #6b7280;
+        }
+
+        section {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .muted {
+          margin: 0;
+          color: #6b7280;
+          font-size: 14px;
+        }
+
+        .backup-actions,
+        .strategies {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 8px 12px;
+          align-items: center;
+        }
+
+        .strategies label {
+          display: inline-flex;
+          gap: 4px;
+          align-items: center;
+          font-size: 14px;
+        }
+
+        .button input {
+          display: none;
+        }
+
+        .backup-error {
+          padding: 8px 12px;
+          border-radius: 10px;
+          background: #fef2f2;
+          color: #991b1b;
+          font-size: 14px;
+        }
+
+        .counts {
+          margin: 0;
+          font-weight: 600;
+        }
+
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        th,
+        td {
+          text-align: left;
+          padding: 6px 8px;
+          border-top: 1px solid #f3f4f6;
+        }
+
+        th {
+          font-size: 12px;
+          color: #6b7280;
+        }
+
+        tr.skip td,
+        tr.invalid td {
+          color: #6b7280;
+        }
+
+        tr.invalid td:nth-child(2) {
+          color: #991b1b;
+        }
+
+        button,
+        .button {
+          appearance: none;
+          display: inline-block;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          font-size: 14px;
+          color: inherit;
+          text-decoration: none;
+          cursor: pointer;
+        }
+
+        button:hover,
+        .button:hover {
+          background: #f3f4f6;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        button.primary {
+          background: #111827;
+          color: white;
+          border-color: #111827;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          h4,
+          th,
+          .muted,
+          tr.skip td,
+          tr.invalid td {
+            color: #9ca3af;
+          }
+
+          tr.invalid td:nth-child(2) {
+            color: #fecaca;
+          }
+
+          th,
+          td {
+            border-color: #1a1b1e;
+          }
+
+          .backup-error {
+            background: #2b1617;
+            color: #fecaca;
+          }
+
+          button,
+          .button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover,
+          .button:hover {
+            background: #232428;
+          }
+
+          button.primary {
+            background: #e5e7eb;
+            color: #111827;
+            border-color: #e5e7eb;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
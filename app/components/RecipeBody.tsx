@@ -0,0 +1,180 @@
+"use client";
+import React from "react";
+import { Recipe } from "@/app/types/recipe";
+import { TimerRequest } from "@/app/types/timer";
+import { describeDuration, stepTextAround } from "@/app/lib/durations";
+import { IngredientScale, scaleIngredient } from "@/app/lib/ingredients";
+import { inlineText, parseInline } from "@/app/lib/markdown";
+import { categoryLabel } from "@/app/lib/recipes";
+import { formatClock } from "@/app/lib/time";
+import Markdown, { MarkdownInline } from "./Markdown";
+import { TimerChip } from "./RecipeLine";
+
+interface RecipeBodyProps {
+  recipe: Recipe;
+  // When set, step durations and durations found in the text become "add timer" chips.
+  onStartTimer?: (timer: TimerRequest) => void;
+  // Shows ingredient quantities scaled and/or converted. The recipe itself isn't touched.
+  scale?: IngredientScale;
+}
+
+// Read-only rendering of a recipe: times, ingredients, steps, then the notes (Markdown).
+export default function RecipeBody({ recipe, onStartTimer, scale }: RecipeBodyProps) {
+  const factor = scale?.factor ?? 1;
+  const meta = [
+    recipe.category && categoryLabel(recipe.category),
+    recipe.servings != null &&
+      (factor === 1
+        ? `Serves ${recipe.servings}`
+        : `Serves ${Math.round(recipe.servings * factor)} (scaled from ${recipe.servings})`),
+    recipe.prepTime != null && `Prep ${describeDuration(recipe.prepTime)}`,
+    recipe.cookTime != null && `Cook ${describeDuration(recipe.cookTime)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="recipe-body">
+      {meta.length > 0 && <p className="meta">{meta.join(" · ")}</p>}
+      {recipe.tags.length > 0 && (
+        <p className="tags">
+          {recipe.tags.map((tag) => (
+            <span key={tag} className="tag">
+              {tag}
+            </span>
+          ))}
+        </p>
+      )}
+
+      {recipe.ingredients.length > 0 && (
+        <>
+          <h4>Ingredients</h4>
+          <ul>
+            {recipe.ingredients.map((original, i) => {
+              const ing = scale ? scaleIngredient(original, scale) : original;
+              return (
+                <li key={i}>
+                  {[ing.quantity, ing.unit, ing.item].filter(Boolean).join(" ")}
+                  {ing.note && <span className="note">, {ing.note}</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {recipe.steps.length > 0 && (
+        <>
+          <h4>Steps</h4>
+          <ol>
+            {recipe.steps.map((step, i) => (
+              <li key={i}>
+                {step.duration != null && onStartTimer ? (
+                  <>
+                    <MarkdownInline text={step.text} />{" "}
+                    <TimerChip
+                      name={stepTextAround(inlineText(parseInline(step.text)), 0, 0) || `Step ${i + 1}`}
+                      duration={step.duration}
+                      onStartTimer={onStartTimer}
+                    />
+                  </>
+                ) : (
+                  <MarkdownInline text={step.text} onStartTimer={onStartTimer} />
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {recipe.timers.length > 0 && !onStartTimer && (
+        <>
+          <h4>Saved timers</h4>
+          <p className="timers">
+            {recipe.timers
+              .map((t) =>
+                t.mode === "countdown" && t.duration != null
+                  ? `${t.name || "Timer"} ${formatClock(t.duration)}`
+                  : `${t.name || "Timer"} (stopwatch)`
+              )
+              .join(" · ")}
+          </p>
+        </>
+      )}
+
+      {recipe.content.trim() && (
+        <div className="content">
+          <Markdown source={recipe.content} onStartTimer={onStartTimer} />
+        </div>
+      )}
+
+      <style jsx>{`
+        .meta {
+          margin: 0 0 12px;
+          color: #6b7280;
+          font-size: 14px;
+          font-weight: 600;
+        }
+
+        .tags {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 4px;
+          margin: -6px 0 12px;
+        }
+
+        .tag {
+          padding: 1px 8px;
+          border-radius: 9999px;
+          background: #eef2ff;
+          color: #3730a3;
+          font-size: 12px;
+          font-weight: 600;
+        }
+
+        h4 {
+          margin: 12px 0 6px;
+          font-size: 14px;
+          font-weight: 700;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: #6b7280;
+        }
+
+        ul,
+        ol {
+          margin: 0 0 8px;
+          padding-left: 22px;
+        }
+
+        li {
+          margin: 2px 0;
+        }
+
+        .note {
+          color: #6b7280;
+        }
+
+        .timers {
+          margin: 0;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .content {
+          margin-top: 12px;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .meta,
+          h4,
+          .note {
+            color: #9ca3af;
+          }
+
+          .tag {
+            background: #1e1b4b;
+            color: #c7d2fe;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
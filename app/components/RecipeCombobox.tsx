@@ -0,0 +1,185 @@
+"use client";
+import React, { useEffect, useId, useRef, useState } from "react";
+import { Recipe, RecipeQuery } from "@/app/types/recipe";
+import { useInfiniteScroll } from "@/app/hooks/useInfiniteScroll";
+import { useRecipeSearch } from "@/app/hooks/useRecipeSearch";
+
+interface RecipeComboboxProps {
+  selected: Recipe | null;
+  onSelect: (recipe: Recipe) => void;
+  filters?: Pick<RecipeQuery, "tag" | "category" | "favorites">;
+}
+
+const PAGE_SIZE = 20;
+
+// Type-to-search recipe picker. Shows the selected title until focused; then the text becomes a
+// server-side search and matches load a page at a time as the list is scrolled.
+export default function RecipeCombobox({ selected, onSelect, filters }: RecipeComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [active, setActive] = useState(0);
+  const listId = useId();
+  const input = useRef<HTMLInputElement>(null);
+  const { recipes, loading, hasMore, loadMore, reload } = useRecipeSearch({
+    q: text,
+    ...filters,
+    limit: PAGE_SIZE,
+  });
+  const end = useInfiniteScroll<HTMLLIElement>(loadMore, open ? recipes.length : -1);
+  const index = Math.min(active, recipes.length - 1);
+
+  useEffect(() => {
+    if (open) document.getElementById(`${listId}-${index}`)?.scrollIntoView({ block: "nearest" });
+  }, [open, listId, index]);
+
+  const close = () => {
+    setOpen(false);
+    setText("");
+  };
+
+  const choose = (recipe: Recipe) => {
+    onSelect(recipe);
+    close();
+    input.current?.blur();
+  };
+
+  return (
+    <div className="combobox">
+      <input
+        ref={input}
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={open && index >= 0 ? `${listId}-${index}` : undefined}
+        aria-label="Recipe"
+        placeholder={selected?.title ?? "Search recipes"}
+        value={open ? text : selected?.title ?? ""}
+        onFocus={() => {
+          setOpen(true);
+          setActive(0);
+          reload(); // pick up changes made since the list was last fetched
+        }}
+        onBlur={close}
+        onChange={(e) => {
+          setText(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            close();
+            e.currentTarget.blur();
+          } else if (e.key === "Enter" && open && recipes[index]) {
+            e.preventDefault();
+            choose(recipes[index]);
+          } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault();
+            setOpen(true);
+            const step = e.key === "ArrowDown" ? 1 : -1;
+            setActive(Math.max(0, Math.min(recipes.length - 1, index + step)));
+          }
+        }}
+      />
+      {open && (
+        <ul id={listId} role="listbox" className="options">
+          {recipes.map((recipe, i) => (
+            <li
+              key={recipe.id}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === index}
+              className={i === index ? "active" : ""}
+              // mousedown, not click: the input's blur would close the list before a click lands.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(recipe);
+              }}
+              onMouseEnter={() => setActive(i)}
+            >
+              {recipe.title}
+            </li>
+          ))}
+          {recipes.length === 0 && (
+            <li className="status">{loading ? "Searching..." : "No matching recipes"}</li>
+          )}
+          <li ref={end} className="status" aria-hidden>
+            {hasMore && loading ? "Loading more..." : ""}
+          </li>
+        </ul>
+      )}
+
+      <style jsx>{`
+        .combobox {
+          position: relative;
+          flex: 1;
+          max-width: 300px;
+        }
+
+        input {
+          width: 100%;
+          box-sizing: border-box;
+          padding: 6px 10px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 14px;
+          background: white;
+        }
+
+        .options {
+          position: absolute;
+          z-index: 10;
+          top: calc(100% + 4px);
+          left: 0;
+          right: 0;
+          max-height: 260px;
+          overflow-y: auto;
+          margin: 0;
+          padding: 4px 0;
+          list-style: none;
+          background: white;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12);
+          font-size: 14px;
+        }
+
+        li {
+          padding: 6px 10px;
+          cursor: pointer;
+        }
+
+        li.active {
+          background: #f0f9ff;
+        }
+
+        li.status {
+          color: #6b7280;
+          cursor: default;
+          padding: 2px 10px;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          input {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
+          .options {
+            background: #111214;
+            border-color: #26272b;
+          }
+
+          li.active {
+            background: #1e293b;
+          }
+
+          li.status {
+            color: #9ca3af;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
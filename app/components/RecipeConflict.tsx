@@ -0,0 +1,160 @@
+"use client";
+import React from "react";
+import { Recipe } from "@/app/types/recipe";
+import RecipeBody from "./RecipeBody";
+
+interface RecipeConflictProps {
+  mine: Recipe; // the unsaved edit
+  theirs: Recipe; // what's stored now
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: () => void;
+}
+
+// Shown when a save is rejected because someone else saved the recipe first.
+export default function RecipeConflict({
+  mine,
+  theirs,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+}: RecipeConflictProps) {
+  return (
+    <div className="conflict">
+      <p className="conflict-message">
+        Someone else saved this recipe while you were editing it. Choose which version to keep, or
+        merge the two by hand.
+      </p>
+
+      <div className="columns">
+        <section>
+          <h4>Your changes</h4>
+          <h3>{mine.title}</h3>
+          <RecipeBody recipe={mine} />
+        </section>
+        <section>
+          <h4>Saved {new Date(theirs.updatedAt).toLocaleString()}</h4>
+          <h3>{theirs.title}</h3>
+          <RecipeBody recipe={theirs} />
+        </section>
+      </div>
+
+      <div className="conflict-actions">
+        <button className="primary" onClick={onKeepMine}>
+          Keep mine
+        </button>
+        <button onClick={onTakeTheirs}>Take theirs</button>
+        <button onClick={onMerge}>Merge manually</button>
+      </div>
+
+      <style jsx>{`
+        .conflict {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .conflict-message {
+          margin: 0;
+          padding: 10px 12px;
+          border-radius: 10px;
+          background: #fffbeb;
+          color: #92400e;
+          font-weight: 600;
+        }
+
+        .columns {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 16px;
+        }
+
+        section {
+          border: 1px solid #e5e7eb;
+          border-radius: 12px;
+          padding: 12px;
+          min-width: 0;
+        }
+
+        h4 {
+          margin: 0 0 4px;
+          font-size: 12px;
+          font-weight: 700;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: #6b7280;
+        }
+
+        h3 {
+          margin: 0 0 8px;
+          font-size: 18px;
+          font-weight: 700;
+        }
+
+        .conflict-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:hover {
+          background: #f3f4f6;
+        }
+
+        button.primary {
+          background: #111827;
+          color: white;
+          border-color: #111827;
+        }
+
+        button.primary:hover {
+          background: #000;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .conflict-message {
+            background: #2b1d0f;
+            color: #fbbf24;
+          }
+
+          section {
+            border-color: #26272b;
+          }
+
+          h4 {
+            color: #9ca3af;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover {
+            background: #232428;
+          }
+
+          button.primary {
+            background: #e5e7eb;
+            color: #111827;
+            border-color: #e5e7eb;
+          }
+
+          button.primary:hover {
+            background: #fff;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
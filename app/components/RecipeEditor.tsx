@@ -0,0 +1,471 @@
+"use client";
+import React from "react";
+import { Ingredient, RecipeInput, RecipeStep } from "@/app/types/recipe";
+import { PresetTimer, TimerMode } from "@/app/types/timer";
+import {
+  RECIPE_CATEGORIES,
+  categoryLabel,
+  emptyIngredient,
+  emptyPresetTimer,
+  emptyStep,
+} from "@/app/lib/recipes";
+import { RECIPE_LIMITS } from "@/app/lib/schema";
+import DurationInput from "./DurationInput";
+import Markdown from "./Markdown";
+import TagInput from "./TagInput";
+
+interface RecipeEditorProps {
+  form: RecipeInput;
+  onChange: (form: RecipeInput) => void;
+  knownTags?: string[]; // for tag autocomplete
+  children?: React.ReactNode; // action buttons
+}
+
+export default function RecipeEditor({
+  form,
+  onChange,
+  knownTags = [],
+  children,
+}: RecipeEditorProps) {
+  const set = <K extends keyof RecipeInput>(key: K, value: RecipeInput[K]) =>
+    onChange({ ...form, [key]: value });
+
+  const setIngredient = (index: number, patch: Partial<Ingredient>) =>
+    set("ingredients", form.ingredients.map((ing, i) => (i === index ? { ...ing, ...patch } : ing)));
+
+  const setStep = (index: number, patch: Partial<RecipeStep>) =>
+    set("steps", form.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+
+  const setTimer = (index: number, patch: Partial<PresetTimer>) =>
+    set("timers", form.timers.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+
+  const move = <K extends "steps" | "timers">(key: K, index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= form[key].length) return;
+    const items = [...form[key]] as RecipeInput[K];
+    [items[index], items[target]] = [items[target], items[index]];
+    set(key, items);
+  };
+
+  return (
+    <div className="recipe-editor">
+      <input
+        type="text"
+        className="recipe-title-input"
+        placeholder="Recipe Title"
+        maxLength={RECIPE_LIMITS.title}
+        value={form.title}
+        onChange={(e) => set("title", e.target.value)}
+      />
+
+      <div className="meta">
+        <label>
+          Servings
+          <input
+            type="number"
+            min={1}
+            max={RECIPE_LIMITS.servings}
+            value={form.servings ?? ""}
+            onChange={(e) => set("servings", e.target.value ? Number(e.target.value) : null)}
+          />
+        </label>
+        <label>
+          Prep
+          <DurationInput
+            className="duration"
+            value={form.prepTime}
+            onChange={(v) => set("prepTime", v)}
+            placeholder="mm:ss"
+            aria-label="Prep time"
+          />
+        </label>
+        <label>
+          Cook
+          <DurationInput
+            className="duration"
+            value={form.cookTime}
+            onChange={(v) => set("cookTime", v)}
+            placeholder="mm:ss"
+            aria-label="Cook time"
+          />
+        </label>
+      </div>
+
+      <div className="organise">
+        <select
+          value={form.category ?? ""}
+          onChange={(e) => set("category", e.target.value || null)}
+          aria-label="Category"
+        >
+          <option value="">No category</option>
+          {RECIPE_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {categoryLabel(c)}
+            </option>
+          ))}
+        </select>
+        <TagInput tags={form.tags} onChange={(tags) => set("tags", tags)} suggestions={knownTags} />
+      </div>
+
+      <section>
+        <h4>Ingredients</h4>
+        {form.ingredients.map((ing, i) => (
+          <div className="row" key={i}>
+            <input
+              className="qty"
+              placeholder="Qty"
+              value={ing.quantity}
+              onChange={(e) => setIngredient(i, { quantity: e.target.value })}
+            />
+            <input
+              className="unit"
+              placeholder="Unit"
+              value={ing.unit}
+              onChange={(e) => setIngredient(i, { unit: e.target.value })}
+            />
+            <input
+              className="grow"
+              placeholder="Item"
+              value={ing.item}
+              onChange={(e) => setIngredient(i, { item: e.target.value })}
+            />
+            <input
+              className="grow"
+              placeholder="Note (optional)"
+              value={ing.note}
+              onChange={(e) => setIngredient(i, { note: e.target.value })}
+            />
+            <button
+              className="icon"
+              onClick={() => set("ingredients", form.ingredients.filter((_, j) => j !== i))}
+              aria-label="Remove ingredient"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          className="small"
+          onClick={() => set("ingredients", [...form.ingredients, emptyIngredient()])}
+        >
+          + Ingredient
+        </button>
+      </section>
+
+      <section>
+        <h4>Steps</h4>
+        {form.steps.map((step, i) => (
+          <div className="row" key={i}>
+            <span className="step-number">{i + 1}.</span>
+            <textarea
+              className="grow"
+              rows={2}
+              placeholder="What to do"
+              value={step.text}
+              onChange={(e) => setStep(i, { text: e.target.value })}
+            />
+            <DurationInput
+              className="duration"
+              value={step.duration}
+              onChange={(v) => setStep(i, { duration: v })}
+              placeholder="Timer"
+              aria-label={`Step ${i + 1} duration`}
+            />
+            <button className="icon" onClick={() => move("steps", i, -1)} aria-label="Move step up">
+              ↑
+            </button>
+            <button className="icon" onClick={() => move("steps", i, 1)} aria-label="Move step down">
+              ↓
+            </button>
+            <button
+              className="icon"
+              onClick={() => set("steps", form.steps.filter((_, j) => j !== i))}
+              aria-label="Remove step"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button className="small" onClick={() => set("steps", [...form.steps, emptyStep()])}>
+          + Step
+        </button>
+      </section>
+
+      <section>
+        <h4>Timers</h4>
+        {form.timers.map((timer, i) => (
+          <div className="row" key={i}>
+            <input
+              className="grow"
+              placeholder="Timer name"
+              value={timer.name}
+              onChange={(e) => setTimer(i, { name: e.target.value })}
+            />
+            <select
+              value={timer.mode}
+              onChange={(e) => setTimer(i, { mode: e.target.value as TimerMode })}
+              aria-label="Timer mode"
+            >
+              <option value="countdown">Countdown</option>
+              <option value="stopwatch">Stopwatch</option>
+            </select>
+            {timer.mode === "countdown" && (
+              <DurationInput
+                className="duration"
+                value={timer.duration}
+                onChange={(v) => setTimer(i, { duration: v })}
+                placeholder="mm:ss"
+                aria-label={`${timer.name || "Timer"} duration`}
+              />
+            )}
+            <button className="icon" onClick={() => move("timers", i, -1)} aria-label="Move timer up">
+              ↑
+            </button>
+            <button className="icon" onClick={() => move("timers", i, 1)} aria-label="Move timer down">
+              ↓
+            </button>
+            <button
+              className="icon"
+              onClick={() => set("timers", form.timers.filter((_, j) => j !== i))}
+              aria-label="Remove timer"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button className="small" onClick={() => set("timers", [...form.timers, emptyPresetTimer()])}>
+          + Timer
+        </button>
+      </section>
+
+      <section className="notes">
+        <h4>
+          Notes <span className="hint">Markdown: # heading, **bold**, - list, - [ ] checklist</span>
+        </h4>
+        <div className="notes-panes">
+          <textarea
+            className="recipe-content-input"
+            placeholder="Recipe content..."
+            maxLength={RECIPE_LIMITS.content}
+            value={form.content}
+            onChange={(e) => set("content", e.target.value)}
+          />
+          <div className="preview" aria-label="Preview">
+            {form.content.trim() ? (
+              <Markdown source={form.content} readOnly />
+            ) : (
+              <p className="hint">Preview appears here</p>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {children && <div className="recipe-actions">{children}</div>}
+
+      <style jsx>{`
+        .recipe-editor {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .recipe-title-input {
+          font-size: 20px;
+          padding: 10px;
+          border: 1px solid #e5e7eb;
+          border-radius: 10px;
+          font-weight: 600;
+        }
+
+        .meta {
+          display: flex;
+          gap: 12px;
+          flex-wrap: wrap;
+        }
+
+        .meta label {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-size: 14px;
+          font-weight: 600;
+        }
+
+        .meta input {
+          width: 70px;
+        }
+
+        .organise {
+          display: flex;
+          gap: 8px;
+          align-items: flex-start;
+        }
+
+        section {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        section h4 {
+          margin: 0;
+          font-size: 14px;
+          font-weight: 700;
+          color: #6b7280;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+        }
+
+        .row {
+          display: flex;
+          gap: 6px;
+          align-items: center;
+        }
+
+        input,
+        textarea,
+        select,
+        .recipe-editor :global(.duration) {
+          padding: 6px 8px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 14px;
+          font-family: inherit;
+          min-width: 0;
+        }
+
+        .recipe-editor :global(.duration) {
+          width: 80px;
+          font-variant-numeric: tabular-nums;
+        }
+
+        .qty {
+          width: 60px;
+        }
+
+        .unit {
+          width: 70px;
+        }
+
+        .grow {
+          flex: 1;
+        }
+
+        textarea {
+          resize: vertical;
+        }
+
+        .step-number {
+          width: 20px;
+          font-weight: 700;
+          color: #6b7280;
+        }
+
+        .notes {
+          flex: 1;
+        }
+
+        .hint {
+          margin: 0;
+          font-size: 12px;
+          font-weight: 500;
+          text-transform: none;
+          letter-spacing: 0;
+          color: #9ca3af;
+        }
+
+        .notes-panes {
+          flex: 1;
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 8px;
+        }
+
+        .preview {
+          min-height: 120px;
+          padding: 12px;
+          border: 1px dashed #e5e7eb;
+          border-radius: 10px;
+          font-size: 15px;
+          line-height: 1.5;
+          overflow-y: auto;
+        }
+
+        .recipe-content-input {
+          flex: 1;
+          min-height: 120px;
+          padding: 12px;
+          border-radius: 10px;
+          font-size: 16px;
+          line-height: 1.5;
+        }
+
+        .recipe-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:hover {
+          background: #f3f4f6;
+        }
+
+        button.small {
+          align-self: flex-start;
+          padding: 4px 10px;
+          font-size: 13px;
+        }
+
+        button.icon {
+          padding: 4px 9px;
+          font-size: 13px;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .recipe-title-input,
+          input,
+          textarea,
+          select,
+          .recipe-editor :global(.duration) {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
+          section h4,
+          .step-number {
+            color: #9ca3af;
+          }
+
+          .hint {
+            color: #6b7280;
+          }
+
+          .preview {
+            border-color: #26272b;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover {
+            background: #232428;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+import React from "react";
+import { RecipeQuery, TagCount } from "@/app/types/recipe";
+import { RECIPE_CATEGORIES, categoryLabel } from "@/app/lib/recipes";
+
+export type RecipeFilterValue = Pick<RecipeQuery, "tag" | "category" | "favorites">;
+
+export const noRecipeFilters: RecipeFilterValue = { tag: null, category: null, favorites: false };
+
+interface RecipeFiltersProps {
+  value: RecipeFilterValue;
+  onChange: (value: RecipeFilterValue) => void;
+  tags: TagCount[];
+  showFavorites: boolean; // favourites need a signed-in user
+}
+
+// Category, tag and favourites filters for a recipe list.
+export default function RecipeFilters({ value, onChange, tags, showFavorites }: RecipeFiltersProps) {
+  return (
+    <div className="recipe-filters">
+      <select
+        value={value.category ?? ""}
+        onChange={(e) => onChange({ ...value, category: e.target.value || null })}
+        aria-label="Filter by category"
+      >
+        <option value="">All categories</option>
+        {RECIPE_CATEGORIES.map((c) => (
+          <option key={c} value={c}>
+            {categoryLabel(c)}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.tag ?? ""}
+        onChange={(e) => onChange({ ...value, tag: e.target.value || null })}
+        aria-label="Filter by tag"
+      >
+        <option value="">All tags</option>
+        {tags.map(({ tag, count }) => (
+          <option key={tag} value={tag}>
+            {tag} ({count})
+          </option>
+        ))}
+      </select>
+      {showFavorites && (
+        <button
+          type="button"
+          className={value.favorites ? "on" : ""}
+          aria-pressed={value.favorites}
+          onClick={() => onChange({ ...value, favorites: !value.favorites })}
+          title="Only favourites"
+        >
+          ★
+        </button>
+      )}
+
+      <style jsx>{`
+        .recipe-filters {
+          display: flex;
+          gap: 6px;
+          align-items: center;
+        }
+
+        select {
+          flex: 1;
+          min-width: 0;
+          padding: 4px 6px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 13px;
+          background: white;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 2px 8px;
+          font-size: 14px;
+          color: #9ca3af;
+          cursor: pointer;
+        }
+
+        button.on {
+          color: #f59e0b;
+          border-color: #f59e0b;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          select,
+          button {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
+          button {
+            color: #6b7280;
+          }
+
+          button.on {
+            color: #fbbf24;
+            border-color: #fbbf24;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+import React, { useEffect, useMemo, useState } from "react";
+import { Recipe, RecipeRevision, RevisionAction } from "@/app/types/recipe";
+import { recipeToText } from "@/app/lib/recipes";
+import { diffLines } from "@/app/lib/diff";
+import { recipeApi } from "@/app/lib/api";
+
+interface RecipeHistoryProps {
+  recipe: Recipe;
+  canRestore: boolean;
+  onRestore: (revision: RecipeRevision) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  create: "Created",
+  update: "Edited",
+  restore: "Restored",
+  delete: "Deleted",
+};
+
+// Every saved revision of a recipe. Pick an older ("from") and newer ("to") revision to see a line
+// diff between them; any revision can be restored, which saves it as a new edit.
+export default function RecipeHistory({ recipe, canRestore, onRestore, onClose }: RecipeHistoryProps) {
+  const [revisions, setRevisions] = useState<RecipeRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Refetch after every save so a restore shows up straight away.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const data = await recipeApi.history(recipe.id);
+        if (cancelled) return;
+        setRevisions(data);
+        setToId(data[0]?.id ?? null);
+        setFromId(data[1]?.id ?? data[0]?.id ?? null);
+        setError(null);
+      } catch (err) {
+        if (!cancelled) setError("Failed to load history");
+        console.error(err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [recipe.id, recipe.version]);
+
+  const from = revisions?.find((r) => r.id === fromId);
+  const to = revisions?.find((r) => r.id === toId);
+  const diff = useMemo(
+    () => (from && to ? diffLines(recipeToText(from.snapshot), recipeToText(to.snapshot)) : []),
+    [from, to]
+  );
+
+  return (
+    <div className="recipe-history">
+      <div className="history-header">
+        <h3>History of {recipe.title}</h3>
+        <button onClick={onClose}>Back to recipe</button>
+      </div>
+
+      {error && <div className="history-error">{error}</div>}
+      {!revisions && !error && <p className="muted">Loading history...</p>}
+      {revisions?.length === 0 && (
+        <p className="muted">No revisions yet. Changes are recorded from the next save.</p>
+      )}
+
+      {revisions && revisions.length > 0 && (
+        <>
+          <table>
+            <thead>
+              <tr>
+                <th title="Compare from">From</th>
+                <th title="Compare to">To</th>
+                <th>Saved</th>
+                <th>By</th>
+                <th>Change</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {revisions.map((rev, i) => (
+                <tr key={rev.id}>
+                  <td>
+                    <input
+                      type="radio"
+                      name="history-from"
+                      checked={fromId === rev.id}
+                      onChange={() => setFromId(rev.id)}
+                      aria-label={`Compare from revision ${revisions.length - i}`}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="radio"
+                      name="history-to"
+                      checked={toId === rev.id}
+                      onChange={() => setToId(rev.id)}
+                      aria-label={`Compare to revision ${revisions.length - i}`}
+                    />
+                  </td>
+                  <td>{new Date(rev.savedAt).toLocaleString()}</td>
+                  <td>{rev.authorId ?? "unknown"}</td>
+                  <td>{ACTION_LABELS[rev.action]}</td>
+                  <td>
+                    {canRestore && i > 0 && rev.action !== "delete" && (
+                      <button className="small" onClick={() => onRestore(rev)}>
+                        Restore
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {from && to && (
+            <pre className="diff" aria-label="Differences between the selected revisions">
+              {diff.map((line, i) => (
+                <div key={i} className={line.kind}>
+                  {line.kind === "added" ? "+ " : line.kind === "removed" ? "- " : "  "}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </>
+      )}
+
+      <style jsx>{`
+        .recipe-history {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .history-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        h3 {
+          margin: 0;
+          font-size: 20px;
+          font-weight: 700;
+        }
+
+        .history-error {
+          padding: 8px 12px;
+          border-radius: 10px;
+          background: #fef2f2;
+          color: #991b1b;
+          font-size: 14px;
+        }
+
+        .muted {
+          margin: 0;
+          color: #6b7280;
+        }
+
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 14px;
+        }
+
+        th {
+          text-align: left;
+          font-size: 12px;
+          font-weight: 700;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: #6b7280;
+          padding: 4px 6px;
+        }
+
+        td {
+          padding: 4px 6px;
+          border-top: 1px solid #f3f4f6;
+        }
+
+        .diff {
+          margin: 0;
+          padding: 12px;
+          border: 1px solid #e5e7eb;
+          border-radius: 10px;
+          font-size: 13px;
+          line-height: 1.5;
+          white-space: pre-wrap;
+          overflow-x: auto;
+        }
+
+        .diff .added {
+          background: #ecfdf5;
+          color: #065f46;
+        }
+
+        .diff .removed {
+          background: #fef2f2;
+          color: #991b1b;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:hover {
+          background: #f3f4f6;
+        }
+
+        button.small {
+          padding: 4px 10px;
+          font-size: 13px;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .history-error {
+            background: #2b1617;
+            color: #fecaca;
+          }
+
+          .muted,
+          th {
+            color: #9ca3af;
+          }
+
+          td {
+            border-color: #1a1b1e;
+          }
+
+          .diff {
+            border-color: #26272b;
+          }
+
+          .diff .added {
+            background: #0f2a1f;
+            color: #6ee7b7;
+          }
+
+          .diff .removed {
+            background: #2b1617;
+            color: #fecaca;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover {
+            background: #232428;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
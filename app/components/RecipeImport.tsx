@@ -0,0 +1,242 @@
+"use client";
+import React, { useState } from "react";
+import { RecipeInput } from "@/app/types/recipe";
+import { ImportResult, importRecipe } from "@/app/lib/importRecipe";
+import { describeDuration } from "@/app/lib/durations";
+
+interface RecipeImportProps {
+  // Called with the extracted draft, which then goes through the normal editor before saving.
+  onImport: (input: RecipeInput) => void;
+  onClose: () => void;
+}
+
+// Paste a recipe page's HTML (or plain text), or pick a saved page, and see what can be extracted.
+// Everything happens in the browser; nothing is fetched.
+export default function RecipeImport({ onImport, onClose }: RecipeImportProps) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const extract = (source: string) => {
+    const found = importRecipe(source);
+    setResult(found);
+    setError(found ? null : "Couldn't find a recipe in that. Try pasting the page's HTML source.");
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const contents = await file.text();
+      setText(contents);
+      extract(contents);
+    } catch (err) {
+      setError("Failed to read the file");
+      console.error(err);
+    }
+  };
+
+  const times = result
+    ? [
+        result.input.prepTime != null && `prep ${describeDuration(result.input.prepTime)}`,
+        result.input.cookTime != null && `cook ${describeDuration(result.input.cookTime)}`,
+      ].filter(Boolean)
+    : [];
+
+  return (
+    <div className="recipe-import">
+      <div className="import-header">
+        <h3>Import a recipe</h3>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <p className="muted">
+        Paste the HTML source of a recipe page, or the recipe as plain text, or open a saved page.
+        Recipe sites that publish structured data import most accurately.
+      </p>
+
+      <textarea
+        rows={10}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setResult(null);
+        }}
+        placeholder="Paste HTML or text here"
+        aria-label="Recipe HTML or text"
+      />
+      <div className="import-actions">
+        <button className="primary" onClick={() => extract(text)} disabled={!text.trim()}>
+          Extract
+        </button>
+        <label className="file">
+          Open saved page…
+          <input
+            type="file"
+            accept=".html,.htm,.txt,text/html,text/plain"
+            onChange={(e) => {
+              readFile(e.target.files?.[0]);
+              e.target.value = ""; // so choosing the same file again still fires
+            }}
+          />
+        </label>
+      </div>
+
+      {error && <div className="import-error">{error}</div>}
+
+      {result && (
+        <div className="import-preview">
+          <strong>{result.input.title}</strong>
+          <span className="muted">
+            {result.source === "json-ld"
+              ? "Read from the page's recipe data"
+              : "Guessed from the page text — check it over"}
+          </span>
+          <span className="muted">
+            {result.input.ingredients.length} ingredient
+            {result.input.ingredients.length === 1 ? "" : "s"} · {result.input.steps.length} step
+            {result.input.steps.length === 1 ? "" : "s"}
+            {result.input.servings != null && ` · serves ${result.input.servings}`}
+            {times.length > 0 && ` · ${times.join(", ")}`}
+          </span>
+          <div className="import-actions">
+            <button className="primary" onClick={() => onImport(result.input)}>
+              Review and save
+            </button>
+          </div>
+        </div>
+      )}
+
+      <style jsx>{`
+        .recipe-import {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .import-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        h3 {
+          margin: 0;
+          font-size: 20px;
+          font-weight: 700;
+        }
+
+        .muted {
+          margin: 0;
+          color: #6b7280;
+          font-size: 14px;
+        }
+
+        textarea {
+          padding: 8px 10px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+          font-size: 13px;
+          resize: vertical;
+        }
+
+        .import-actions {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+        }
+
+        .file input {
+          display: none;
+        }
+
+        .import-error {
+          padding: 8px 12px;
+          border-radius: 10px;
+          background: #fef2f2;
+          color: #991b1b;
+          font-size: 14px;
+        }
+
+        .import-preview {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          padding: 12px;
+          border: 1px solid #e5e7eb;
+          border-radius: 10px;
+        }
+
+        .import-preview .import-actions {
+          margin-top: 8px;
+        }
+
+        button,
+        .file {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          font-size: 14px;
+          cursor: pointer;
+        }
+
+        button:hover,
+        .file:hover {
+          background: #f3f4f6;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        button.primary {
+          background: #111827;
+          color: white;
+          border-color: #111827;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .muted {
+            color: #9ca3af;
+          }
+
+          textarea {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
+          .import-error {
+            background: #2b1617;
+            color: #fecaca;
+          }
+
+          .import-preview {
+            border-color: #26272b;
+          }
+
+          button,
+          .file {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover,
+          .file:hover {
+            background: #232428;
+          }
+
+          button.primary {
+            background: #e5e7eb;
+            color: #111827;
+            border-color: #e5e7eb;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
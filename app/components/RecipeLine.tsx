@@ -0,0 +1,99 @@
+"use client";
+import React from "react";
+import { TimerRequest } from "@/app/types/timer";
+import { describeDuration, findDurations, stepTextAround } from "@/app/lib/durations";
+
+interface TimerChipProps {
+  name: string;
+  duration: number; // ms
+  maxDuration?: number | null; // ms; shown as a secondary "up to" warning
+  label?: string; // defaults to the described duration
+  onStartTimer: (timer: TimerRequest) => void;
+}
+
+export function TimerChip({ name, duration, maxDuration, label, onStartTimer }: TimerChipProps) {
+  return (
+    <button
+      className="timer-chip"
+      onClick={() => onStartTimer({ name, duration, maxDuration: maxDuration ?? undefined })}
+      title={`Add a ${describeDuration(duration)} countdown: ${name}`}
+    >
+      ⏱ {label ?? describeDuration(duration)}
+      {maxDuration != null && (
+        <span className="timer-chip-range">up to {describeDuration(maxDuration)}</span>
+      )}
+
+      <style jsx>{`
+        .timer-chip {
+          display: inline-flex;
+          align-items: baseline;
+          gap: 6px;
+          padding: 1px 8px;
+          margin: 0 1px;
+          font-size: inherit;
+          font-weight: 600;
+          line-height: 1.4;
+          border: 1px solid #93c5fd;
+          border-radius: 9999px;
+          background: #eff6ff;
+          color: #1d4ed8;
+          cursor: pointer;
+        }
+        .timer-chip:hover {
+          background: #dbeafe;
+        }
+        .timer-chip-range {
+          font-size: 12px;
+          font-weight: 600;
+          color: #b45309;
+        }
+        @media (prefers-color-scheme: dark) {
+          .timer-chip {
+            background: #172554;
+            border-color: #1e40af;
+            color: #bfdbfe;
+          }
+          .timer-chip:hover {
+            background: #1e3a8a;
+          }
+          .timer-chip-range {
+            color: #fbbf24;
+          }
+        }
+      `}</style>
+    </button>
+  );
+}
+
+// Renders one line of recipe text with any durations in it turned into "add timer" chips.
+// Without onStartTimer the line is rendered as plain text.
+export default function RecipeLine({
+  line,
+  onStartTimer,
+}: {
+  line: string;
+  onStartTimer?: (timer: TimerRequest) => void;
+}) {
+  const matches = onStartTimer ? findDurations(line) : [];
+  if (!onStartTimer || matches.length === 0) return <>{line}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach((m, i) => {
+    parts.push(line.slice(cursor, m.start));
+    parts.push(
+      <TimerChip
+        key={i}
+        name={stepTextAround(line, m.start, m.end) || m.text}
+        duration={m.minMs}
+        maxDuration={m.maxMs}
+        label={m.text}
+        onStartTimer={onStartTimer}
+      />
+    );
+    cursor = m.end;
+  });
+  parts.push(line.slice(cursor));
+
+  return <>{parts}</>;
+}
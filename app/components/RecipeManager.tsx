@@ -1,207 +1,330 @@
 "use client";
-import React, { useEffect, useState } from "react";
-import { Recipe } from "@/app/types/recipe";
+import React, { useState } from "react";
+import { Recipe, RecipeInput, RecipeRevision } from "@/app/types/recipe";
+import { canModifyRecipe, emptyRecipeInput, toRecipeInput } from "@/app/lib/recipes";
+import { ApiError, errorMessage } from "@/app/lib/api";
+import { recipeCache } from "@/app/lib/recipeCache";
+import { parseRecipeInput } from "@/app/lib/schema";
+import { useCurrentUser } from "@/app/hooks/useCurrentUser";
+import { useFavorites } from "@/app/hooks/useFavorites";
+import { useInfiniteScroll } from "@/app/hooks/useInfiniteScroll";
+import { useRecipe } from "@/app/hooks/useRecipe";
+import { useRecipeSearch } from "@/app/hooks/useRecipeSearch";
+import { useRecipeTags } from "@/app/hooks/useRecipeTags";
+import AuthBar from "./AuthBar";
+import FavoriteToggle from "./FavoriteToggle";
+import RecipeBackup from "./RecipeBackup";
+import RecipeBody from "./RecipeBody";
+import RecipeConflict from "./RecipeConflict";
+import RecipeEditor from "./RecipeEditor";
+import RecipeFilters, { noRecipeFilters } from "./RecipeFilters";
+import RecipeHistory from "./RecipeHistory";
+import RecipeImport from "./RecipeImport";
+import RecipeTrash from "./RecipeTrash";
+
+// Runs the server's schema in the browser so obvious mistakes don't need a round trip.
+function validateForm(form: RecipeInput): string | null {
+  const parsed = parseRecipeInput(form);
+  return "error" in parsed ? parsed.error : null;
+}
+
+const isConflict = (err: unknown): err is ApiError & { current: Recipe } =>
+  err instanceof ApiError && err.code === "conflict" && err.current !== null;
 
 export default function RecipeManager() {
-  const [recipes, setRecipes] = useState<Recipe[]>([]);
-  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState(noRecipeFilters);
+  const {
+    recipes,
+    loading,
+    error: listError,
+    hasMore,
+    loadMore,
+  } = useRecipeSearch({ q: search, ...filters });
+  const listEnd = useInfiniteScroll<HTMLDivElement>(loadMore, recipes.length);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  // The copy an edit started from. Saves are checked against its version, not against whatever
+  // has arrived from other kitchens since, so their changes surface as a conflict.
+  const [editBase, setEditBase] = useState<Recipe | null>(null);
+  const liveRecipe = useRecipe(selectedId);
+  const selectedRecipe = (isEditing && editBase) || liveRecipe || null;
   const [isCreating, setIsCreating] = useState(false);
-  const [editForm, setEditForm] = useState({ title: "", content: "" });
-  const [loading, setLoading] = useState(true);
+  const [editForm, setEditForm] = useState<RecipeInput>(emptyRecipeInput);
   const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    fetchRecipes();
-  }, []);
-
-  const fetchRecipes = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch("/api/recipes");
-      if (!response.ok) throw new Error("Failed to fetch recipes");
-      const data = await response.json();
-      setRecipes(data);
-      setError(null);
-    } catch (err) {
-      setError("Failed to load recipes");
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // The stored copy that rejected our save, while the user decides what to do about it.
+  const [conflict, setConflict] = useState<Recipe | null>(null);
+  // Shown next to the editor while merging a conflict by hand.
+  const [mergeReference, setMergeReference] = useState<Recipe | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // A panel that takes over the content area until closed.
+  const [panel, setPanel] = useState<"trash" | "import" | "backup" | null>(null);
+  const { user, signIn, signOut } = useCurrentUser();
+  const { favorites, toggleFavorite } = useFavorites(user);
+  const { tags: knownTags } = useRecipeTags();
+  const tagSuggestions = knownTags.map((t) => t.tag);
+  const canEdit = selectedRecipe != null && canModifyRecipe(user, selectedRecipe);
 
   const createRecipe = async () => {
-    if (!editForm.title.trim() || !editForm.content.trim()) {
-      setError("Title and content are required");
+    const invalid = validateForm(editForm);
+    if (invalid) {
+      setError(invalid);
       return;
     }
 
     try {
-      const response = await fetch("/api/recipes", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(editForm),
-      });
-
-      if (!response.ok) throw new Error("Failed to create recipe");
-      
-      const newRecipe = await response.json();
-      setRecipes([...recipes, newRecipe]);
-      setSelectedRecipe(newRecipe);
+      const newRecipe = await recipeCache.create(editForm);
+      setSelectedId(newRecipe.id);
       setIsCreating(false);
-      setEditForm({ title: "", content: "" });
+      setEditForm(emptyRecipeInput());
       setError(null);
     } catch (err) {
-      setError("Failed to create recipe");
+      setError(errorMessage(err, "Failed to create recipe"));
       console.error(err);
     }
   };
 
   const updateRecipe = async () => {
-    if (!selectedRecipe || !editForm.title.trim() || !editForm.content.trim()) {
-      setError("Title and content are required");
+    if (!selectedRecipe) return;
+    const invalid = validateForm(editForm);
+    if (invalid) {
+      setError(invalid);
       return;
     }
 
     try {
-      const response = await fetch("/api/recipes", {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          id: selectedRecipe.id,
-          title: editForm.title,
-          content: editForm.content,
-        }),
-      });
-
-      if (!response.ok) throw new Error("Failed to update recipe");
-      
-      const updatedRecipe = await response.json();
-      setRecipes(recipes.map(r => r.id === updatedRecipe.id ? updatedRecipe : r));
-      setSelectedRecipe(updatedRecipe);
+      // The version we started editing from; the server rejects the save if it has moved on.
+      await recipeCache.update(selectedRecipe.id, selectedRecipe.version, editForm);
       setIsEditing(false);
+      setEditBase(null);
+      setMergeReference(null);
       setError(null);
     } catch (err) {
-      setError("Failed to update recipe");
+      if (isConflict(err)) {
+        // From here on their copy is the base, so "keep mine" or a merge saves against it.
+        setEditBase(err.current);
+        setConflict(err.current);
+        setMergeReference(null);
+        setError(null);
+        return;
+      }
+      setError(errorMessage(err, "Failed to update recipe"));
       console.error(err);
     }
   };
 
   const deleteRecipe = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this recipe?")) return;
+    if (!confirm("Move this recipe to the trash? It can be restored for 30 days.")) return;
 
     try {
-      const response = await fetch(`/api/recipes?id=${id}`, {
-        method: "DELETE",
-      });
-
-      if (!response.ok) throw new Error("Failed to delete recipe");
-      
-      setRecipes(recipes.filter(r => r.id !== id));
-      if (selectedRecipe?.id === id) {
-        setSelectedRecipe(null);
+      await recipeCache.remove(id);
+      if (selectedId === id) {
+        setSelectedId(null);
+        setIsEditing(false);
       }
       setError(null);
     } catch (err) {
-      setError("Failed to delete recipe");
+      setError(errorMessage(err, "Failed to delete recipe"));
+      console.error(err);
+    }
+  };
+
+  const restoreRevision = async (revision: RecipeRevision) => {
+    if (!selectedRecipe) return;
+    const saved = new Date(revision.savedAt).toLocaleString();
+    if (!confirm(`Restore the version saved ${saved}? The current version stays in the history.`)) {
+      return;
+    }
+
+    try {
+      await recipeCache.restoreRevision(selectedRecipe.id, revision.id, selectedRecipe.version);
+      setError(null);
+    } catch (err) {
+      if (isConflict(err)) {
+        // The cache already shows their copy; the history now has their save too.
+        setError("Someone else just saved this recipe. Check the history and try again.");
+        return;
+      }
+      setError(errorMessage(err, "Failed to restore revision"));
       console.error(err);
     }
   };
 
+  const restoredFromTrash = (recipe: Recipe) => {
+    setSelectedId(recipe.id);
+    setPanel(null);
+  };
+
   const startEditing = () => {
     if (selectedRecipe) {
-      setEditForm({ title: selectedRecipe.title, content: selectedRecipe.content });
+      setEditForm(toRecipeInput(selectedRecipe));
+      setEditBase(selectedRecipe);
       setIsEditing(true);
     }
   };
 
-  const startCreating = () => {
-    setEditForm({ title: "", content: "" });
+  const startCreating = (draft: RecipeInput = emptyRecipeInput()) => {
+    setShowHistory(false);
+    setPanel(null);
+    setEditForm(draft);
     setIsCreating(true);
-    setSelectedRecipe(null);
+    setSelectedId(null);
+  };
+
+  const takeTheirs = () => {
+    setConflict(null);
+    setIsEditing(false);
+  };
+
+  const mergeManually = () => {
+    setMergeReference(conflict);
+    setConflict(null);
   };
 
   const cancelEdit = () => {
     setIsEditing(false);
     setIsCreating(false);
-    setEditForm({ title: "", content: "" });
+    setConflict(null);
+    setMergeReference(null);
+    setEditForm(emptyRecipeInput());
   };
 
-  if (loading) {
-    return <div className="recipe-loading">Loading recipes...</div>;
-  }
-
   return (
     <div className="recipe-manager">
       <div className="recipe-sidebar">
         <div className="recipe-header">
           <h2>Recipes</h2>
-          <button className="primary small" onClick={startCreating}>
-            + New
-          </button>
+          {user && (
+            <div className="recipe-header-actions">
+              <button
+                className="small"
+                onClick={() => setPanel("import")}
+                title="Import a recipe"
+                aria-label="Import a recipe"
+              >
+                ⇩
+              </button>
+              <button
+                className="small"
+                onClick={() => setPanel("backup")}
+                title="Export or import all recipes"
+                aria-label="Export or import all recipes"
+              >
+                ⇅
+              </button>
+              <button
+                className="small"
+                onClick={() => setPanel("trash")}
+                title="Deleted recipes"
+                aria-label="Deleted recipes"
+              >
+                🗑
+              </button>
+              <button className="primary small" onClick={() => startCreating()}>
+                + New
+              </button>
+            </div>
+          )}
         </div>
+
+        <AuthBar
+          user={user}
+          onSignIn={signIn}
+          onSignOut={() => {
+            signOut();
+            cancelEdit();
+            setPanel(null);
+            setFilters({ ...filters, favorites: false });
+          }}
+        />
         
-        {error && <div className="recipe-error">{error}</div>}
-        
+        <input
+          type="search"
+          className="recipe-search"
+          placeholder="Search recipes"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          aria-label="Search recipes"
+        />
+        <div className="recipe-filter-row">
+          <RecipeFilters
+            value={filters}
+            onChange={setFilters}
+            tags={knownTags}
+            showFavorites={user != null}
+          />
+        </div>
+
+        {(error || listError) && <div className="recipe-error">{error || listError}</div>}
+
         <div className="recipe-list">
           {recipes.length === 0 ? (
-            <div className="recipe-empty">No recipes yet</div>
+            <div className="recipe-empty">
+              {loading
+                ? "Loading recipes..."
+                : search.trim() || filters.tag || filters.category || filters.favorites
+                  ? "No matching recipes"
+                  : "No recipes yet"}
+            </div>
           ) : (
             recipes.map(recipe => (
               <div
                 key={recipe.id}
                 className={`recipe-item ${selectedRecipe?.id === recipe.id ? "selected" : ""}`}
                 onClick={() => {
-                  setSelectedRecipe(recipe);
+                  setSelectedId(recipe.id);
                   setIsEditing(false);
                   setIsCreating(false);
+                  setConflict(null);
+                  setMergeReference(null);
+                  setShowHistory(false);
+                  setPanel(null);
                 }}
               >
-                {recipe.title}
+                <span className="recipe-item-title">{recipe.title}</span>
+                {user && (
+                  <FavoriteToggle
+                    favorite={favorites.has(recipe.id)}
+                    onToggle={() => toggleFavorite(recipe.id)}
+                  />
+                )}
               </div>
             ))
           )}
+          <div ref={listEnd} className="recipe-list-end">
+            {hasMore && loading && "Loading more..."}
+          </div>
         </div>
       </div>
 
       <div className="recipe-content">
-        {isCreating ? (
-          <div className="recipe-editor">
-            <input
-              type="text"
-              className="recipe-title-input"
-              placeholder="Recipe Title"
-              value={editForm.title}
-              onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
-            />
-            <textarea
-              className="recipe-content-input"
-              placeholder="Recipe content..."
-              value={editForm.content}
-              onChange={(e) => setEditForm({ ...editForm, content: e.target.value })}
-            />
-            <div className="recipe-actions">
-              <button className="primary" onClick={createRecipe}>
-                Create Recipe
-              </button>
-              <button onClick={cancelEdit}>Cancel</button>
-            </div>
-          </div>
-        ) : isEditing && selectedRecipe ? (
-          <div className="recipe-editor">
-            <input
-              type="text"
-              className="recipe-title-input"
-              value={editForm.title}
-              onChange={(e) => setEditForm({ ...editForm, title: e.target.value })}
-            />
-            <textarea
-              className="recipe-content-input"
-              value={editForm.content}
-              onChange={(e) => setEditForm({ ...editForm, content: e.target.value })}
-            />
-            <div className="recipe-actions">
+        {panel === "trash" && user ? (
+          <RecipeTrash onRestored={restoredFromTrash} onClose={() => setPanel(null)} />
+        ) : panel === "import" && user ? (
+          <RecipeImport onImport={startCreating} onClose={() => setPanel(null)} />
+        ) : panel === "backup" && user ? (
+          <RecipeBackup onClose={() => setPanel(null)} />
+        ) : isCreating && user ? (
+          <RecipeEditor form={editForm} onChange={setEditForm} knownTags={tagSuggestions}>
+            <button className="primary" onClick={createRecipe}>
+              Create Recipe
+            </button>
+            <button onClick={cancelEdit}>Cancel</button>
+          </RecipeEditor>
+        ) : isEditing && selectedRecipe && canEdit && conflict ? (
+          <RecipeConflict
+            mine={{ ...selectedRecipe, ...editForm }}
+            theirs={conflict}
+            onKeepMine={() => {
+              setConflict(null);
+              updateRecipe();
+            }}
+            onTakeTheirs={takeTheirs}
+            onMerge={mergeManually}
+          />
+        ) : isEditing && selectedRecipe && canEdit ? (
+          <div className="recipe-edit">
+            <RecipeEditor form={editForm} onChange={setEditForm} knownTags={tagSuggestions}>
               <button className="primary" onClick={updateRecipe}>
                 Save Changes
               </button>
@@ -212,21 +335,41 @@ export default function RecipeManager() {
               >
                 Delete
               </button>
-            </div>
+            </RecipeEditor>
+            {mergeReference && (
+              <aside className="merge-reference">
+                <h4>Their version (for reference)</h4>
+                <h3>{mergeReference.title}</h3>
+                <RecipeBody recipe={mergeReference} />
+              </aside>
+            )}
           </div>
+        ) : selectedRecipe && showHistory ? (
+          <RecipeHistory
+            recipe={selectedRecipe}
+            canRestore={canEdit}
+            onRestore={restoreRevision}
+            onClose={() => setShowHistory(false)}
+          />
         ) : selectedRecipe ? (
           <div className="recipe-display">
             <div className="recipe-display-header">
-              <h3>{selectedRecipe.title}</h3>
-              <button onClick={startEditing}>Edit</button>
+              <h3>
+                {selectedRecipe.title}
+                {user && (
+                  <FavoriteToggle
+                    favorite={favorites.has(selectedRecipe.id)}
+                    onToggle={() => toggleFavorite(selectedRecipe.id)}
+                  />
+                )}
+              </h3>
+              <div className="recipe-display-actions">
+                <button onClick={() => setShowHistory(true)}>History</button>
+                {canEdit && <button onClick={startEditing}>Edit</button>}
+              </div>
             </div>
             <div className="recipe-display-content">
-              {selectedRecipe.content.split('\n').map((line, i) => (
-                <React.Fragment key={i}>
-                  {line}
-                  {i < selectedRecipe.content.split('\n').length - 1 && <br />}
-                </React.Fragment>
-              ))}
+              <RecipeBody recipe={selectedRecipe} />
             </div>
           </div>
         ) : (
@@ -263,12 +406,37 @@ export default function RecipeManager() {
           align-items: center;
         }
 
+        .recipe-header-actions,
+        .recipe-display-actions {
+          display: flex;
+          gap: 6px;
+        }
+
         .recipe-header h2 {
           margin: 0;
           font-size: 18px;
           font-weight: 700;
         }
 
+        .recipe-search {
+          margin: 8px 16px;
+          padding: 6px 10px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 14px;
+        }
+
+        .recipe-filter-row {
+          padding: 0 16px 8px;
+        }
+
+        .recipe-list-end {
+          padding: 8px 16px;
+          color: #6b7280;
+          font-size: 13px;
+          text-align: center;
+        }
+
         .recipe-error {
           padding: 8px 16px;
           background: #fef2f2;
@@ -288,6 +456,10 @@ export default function RecipeManager() {
         }
 
         .recipe-item {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 6px;
           padding: 12px 16px;
           cursor: pointer;
           border-bottom: 1px solid #f3f4f6;
@@ -309,12 +481,7 @@ export default function RecipeManager() {
           padding: 20px;
           display: flex;
           flex-direction: column;
-        }
-
-        .recipe-loading {
-          padding: 20px;
-          text-align: center;
-          color: #6b7280;
+          overflow-y: auto;
         }
 
         .recipe-placeholder {
@@ -325,6 +492,32 @@ export default function RecipeManager() {
           color: #6b7280;
         }
 
+        .recipe-edit {
+          flex: 1;
+          display: flex;
+          gap: 16px;
+        }
+
+        .merge-reference {
+          flex: 1;
+          min-width: 0;
+          border-left: 1px solid #e5e7eb;
+          padding-left: 16px;
+        }
+
+        .merge-reference h4 {
+          margin: 0 0 4px;
+          font-size: 12px;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: #6b7280;
+        }
+
+        .merge-reference h3 {
+          margin: 0 0 8px;
+          font-size: 18px;
+        }
+
         .recipe-display {
           flex: 1;
           display: flex;
@@ -348,38 +541,6 @@ export default function RecipeManager() {
           flex: 1;
           font-size: 16px;
           line-height: 1.6;
-          white-space: pre-wrap;
-        }
-
-        .recipe-editor {
-          flex: 1;
-          display: flex;
-          flex-direction: column;
-          gap: 12px;
-        }
-
-        .recipe-title-input {
-          font-size: 20px;
-          padding: 10px;
-          border: 1px solid #e5e7eb;
-          border-radius: 10px;
-          font-weight: 600;
-        }
-
-        .recipe-content-input {
-          flex: 1;
-          padding: 12px;
-          border: 1px solid #e5e7eb;
-          border-radius: 10px;
-          font-size: 16px;
-          line-height: 1.5;
-          resize: none;
-          font-family: inherit;
-        }
-
-        .recipe-actions {
-          display: flex;
-          gap: 8px;
         }
 
         button {
@@ -435,6 +596,12 @@ export default function RecipeManager() {
             border-color: #26272b;
           }
 
+          .recipe-search {
+            background: #0b0b0c;
+            border-color: #26272b;
+            color: #e5e7eb;
+          }
+
           .recipe-error {
             background: #2b1617;
             color: #fecaca;
@@ -448,12 +615,21 @@ export default function RecipeManager() {
             background: #1a1b1e;
           }
 
+          .merge-reference {
+            border-color: #26272b;
+          }
+
+          .merge-reference h4 {
+            color: #9ca3af;
+          }
+
           .recipe-item.selected {
             background: #1e293b;
             border-left-color: #60a5fa;
           }
 
           .recipe-empty,
+          .recipe-list-end,
           .recipe-placeholder {
             color: #9ca3af;
           }
@@ -466,13 +642,6 @@ export default function RecipeManager() {
             color: #e5e7eb;
           }
 
-          .recipe-title-input,
-          .recipe-content-input {
-            background: #0b0b0c;
-            border-color: #26272b;
-            color: #e5e7eb;
-          }
-
           button {
             border-color: #26272b;
             background: #1a1b1e;
@@ -0,0 +1,180 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Recipe, TrashedRecipe } from "@/app/types/recipe";
+import { TRASH_RETENTION_MS } from "@/app/lib/storage/types";
+import { errorMessage, recipeApi } from "@/app/lib/api";
+import { recipeCache } from "@/app/lib/recipeCache";
+
+interface RecipeTrashProps {
+  onRestored: (recipe: Recipe) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recipes deleted in the last 30 days that the signed-in user may restore.
+export default function RecipeTrash({ onRestored, onClose }: RecipeTrashProps) {
+  const [entries, setEntries] = useState<TrashedRecipe[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setEntries(await recipeApi.trash());
+      } catch (err) {
+        setError("Failed to load deleted recipes");
+        console.error(err);
+      }
+    })();
+  }, []);
+
+  const restore = async (id: string) => {
+    try {
+      const recipe = await recipeCache.restoreFromTrash(id);
+      setEntries((current) => current?.filter((e) => e.recipe.id !== id) ?? null);
+      setError(null);
+      onRestored(recipe);
+    } catch (err) {
+      setError(errorMessage(err, "Failed to restore recipe"));
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="recipe-trash">
+      <div className="trash-header">
+        <h3>Deleted recipes</h3>
+        <button onClick={onClose}>Close</button>
+      </div>
+      <p className="muted">Deleted recipes are kept for 30 days, then removed for good.</p>
+
+      {error && <div className="trash-error">{error}</div>}
+      {!entries && !error && <p className="muted">Loading...</p>}
+      {entries?.length === 0 && <p className="muted">The trash is empty.</p>}
+
+      {entries && entries.length > 0 && (
+        <ul>
+          {entries.map(({ recipe, deletedAt, deletedBy }) => {
+            const daysLeft = Math.max(
+              0,
+              Math.ceil((deletedAt + TRASH_RETENTION_MS - Date.now()) / DAY_MS)
+            );
+            return (
+              <li key={recipe.id}>
+                <div className="entry">
+                  <strong>{recipe.title}</strong>
+                  <span className="muted">
+                    Deleted {new Date(deletedAt).toLocaleString()}
+                    {deletedBy && ` by ${deletedBy}`} · {daysLeft} day{daysLeft === 1 ? "" : "s"} left
+                  </span>
+                </div>
+                <button className="small" onClick={() => restore(recipe.id)}>
+                  Restore
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <style jsx>{`
+        .recipe-trash {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+
+        .trash-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        h3 {
+          margin: 0;
+          font-size: 20px;
+          font-weight: 700;
+        }
+
+        .trash-error {
+          padding: 8px 12px;
+          border-radius: 10px;
+          background: #fef2f2;
+          color: #991b1b;
+          font-size: 14px;
+        }
+
+        .muted {
+          margin: 0;
+          color: #6b7280;
+          font-size: 14px;
+        }
+
+        ul {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        li {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 12px;
+          padding: 10px 0;
+          border-top: 1px solid #f3f4f6;
+        }
+
+        .entry {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          padding: 8px 14px;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        button:hover {
+          background: #f3f4f6;
+        }
+
+        button.small {
+          padding: 4px 10px;
+          font-size: 13px;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .trash-error {
+            background: #2b1617;
+            color: #fecaca;
+          }
+
+          .muted {
+            color: #9ca3af;
+          }
+
+          li {
+            border-color: #1a1b1e;
+          }
+
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover {
+            background: #232428;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
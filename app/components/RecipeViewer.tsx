@@ -1,35 +1,78 @@
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { Recipe } from "@/app/types/recipe";
+import { PresetTimer, RecipeLink, TimerRequest } from "@/app/types/timer";
+import { IngredientScale, MeasureSystem } from "@/app/lib/ingredients";
+import { canModifyRecipe, recipeLink, toRecipeInput } from "@/app/lib/recipes";
+import { ApiError, errorMessage } from "@/app/lib/api";
+import { recipeCache } from "@/app/lib/recipeCache";
+import { useCurrentUser } from "@/app/hooks/useCurrentUser";
+import { useFavorites } from "@/app/hooks/useFavorites";
+import { useRecipe } from "@/app/hooks/useRecipe";
+import { useRecipeSearch } from "@/app/hooks/useRecipeSearch";
+import { useRecipeTags } from "@/app/hooks/useRecipeTags";
+import FavoriteToggle from "./FavoriteToggle";
+import RecipeBody from "./RecipeBody";
+import RecipeCombobox from "./RecipeCombobox";
+import RecipeFilters, { noRecipeFilters } from "./RecipeFilters";
+import ServingsControl from "./ServingsControl";
 
 interface RecipeViewerProps {
   onManageRecipes: () => void;
+  onStartTimer: (timer: TimerRequest) => void;
+  onCook: (recipe: Recipe) => void;
+  getTimerLayout: () => PresetTimer[];
+  onLoadTimers: (
+    timers: PresetTimer[],
+    strategy: "replace" | "merge",
+    recipe: RecipeLink
+  ) => void;
 }
 
-export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
-  const [recipes, setRecipes] = useState<Recipe[]>([]);
-  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
-  const [loading, setLoading] = useState(true);
+export default function RecipeViewer({
+  onManageRecipes,
+  onStartTimer,
+  onCook,
+  getTimerLayout,
+  onLoadTimers,
+}: RecipeViewerProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [presetStatus, setPresetStatus] = useState<string | null>(null);
+  const [filters, setFilters] = useState(noRecipeFilters);
+  // Scaling belongs to the recipe it was set on; the units choice carries over to the next one.
+  const [scaling, setScaling] = useState<{ recipeId: string | null; factor: number }>({
+    recipeId: null,
+    factor: 1,
+  });
+  const [system, setSystem] = useState<MeasureSystem | null>(null);
+  const { user } = useCurrentUser();
+  const { favorites, toggleFavorite } = useFavorites(user);
+  const { tags } = useRecipeTags();
+  // Just the first recipe, to start with something selected; the combobox searches the rest.
+  const first = useRecipeSearch({ limit: 1 }, 0);
+  const chosen = useRecipe(selectedId);
+  // Until a recipe is chosen, or if the chosen one is deleted, show the first.
+  const selectedRecipe = chosen ?? first.recipes[0] ?? null;
+  const hasRecipes = first.recipes.length > 0;
+  const loading = first.loading && !hasRecipes;
 
-  useEffect(() => {
-    fetchRecipes();
-  }, []);
-
-  const fetchRecipes = async () => {
+  const saveTimers = async (recipe: Recipe) => {
+    const timers = getTimerLayout();
+    if (recipe.timers.length > 0 && !confirm(`Replace the timers saved with "${recipe.title}"?`)) {
+      return;
+    }
     try {
-      setLoading(true);
-      const response = await fetch("/api/recipes");
-      if (!response.ok) throw new Error("Failed to fetch recipes");
-      const data = await response.json();
-      setRecipes(data);
-      if (data.length > 0 && !selectedRecipe) {
-        setSelectedRecipe(data[0]);
-      }
+      await recipeCache.update(recipe.id, recipe.version, { ...toRecipeInput(recipe), timers });
+      setPresetStatus(`Saved ${timers.length} timer${timers.length === 1 ? "" : "s"}`);
     } catch (err) {
+      if (err instanceof ApiError && err.code === "conflict" && err.current) {
+        // Saving on top of someone else's edit would silently drop it; the cache now shows theirs.
+        setPresetStatus("This recipe was changed elsewhere; check it and save again");
+        return;
+      }
+      setPresetStatus(errorMessage(err, "Failed to save timers"));
       console.error(err);
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -37,7 +80,12 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
     return null;
   }
 
-  if (recipes.length === 0) {
+  const scale: IngredientScale = {
+    factor: scaling.recipeId === selectedRecipe?.id ? scaling.factor : 1,
+    system,
+  };
+
+  if (!hasRecipes) {
     return (
       <div className="recipe-viewer-empty">
         <p>No recipes yet.</p>
@@ -101,21 +149,27 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
       <div className="recipe-viewer-header">
         <div className="recipe-selector">
           <label>Recipe:</label>
-          <select 
-            value={selectedRecipe?.id || ''} 
-            onChange={(e) => {
-              const recipe = recipes.find(r => r.id === e.target.value);
-              setSelectedRecipe(recipe || null);
+          <RecipeCombobox
+            selected={selectedRecipe}
+            onSelect={(recipe) => {
+              setSelectedId(recipe.id);
+              setPresetStatus(null);
             }}
-          >
-            {recipes.map(recipe => (
-              <option key={recipe.id} value={recipe.id}>
-                {recipe.title}
-              </option>
-            ))}
-          </select>
+            filters={filters}
+          />
+          <RecipeFilters
+            value={filters}
+            onChange={setFilters}
+            tags={tags}
+            showFavorites={user != null}
+          />
         </div>
         <div className="recipe-controls">
+          {selectedRecipe && (
+            <button onClick={() => onCook(selectedRecipe)} title="Step-by-step with timers">
+              Cook
+            </button>
+          )}
           <button onClick={() => setIsExpanded(!isExpanded)}>
             {isExpanded ? 'Collapse' : 'Expand'}
           </button>
@@ -127,14 +181,62 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
       
       {selectedRecipe && (
         <div className="recipe-viewer-content">
-          <h3>{selectedRecipe.title}</h3>
+          <h3>
+            {selectedRecipe.title}
+            {user && (
+              <FavoriteToggle
+                favorite={favorites.has(selectedRecipe.id)}
+                onToggle={() => toggleFavorite(selectedRecipe.id)}
+              />
+            )}
+          </h3>
+          <div className="preset-bar">
+            {selectedRecipe.timers.length > 0 && (
+              <>
+                <button
+                  onClick={() =>
+                    onLoadTimers(selectedRecipe.timers, "replace", recipeLink(selectedRecipe))
+                  }
+                >
+                  Load timers for this recipe
+                </button>
+                <button
+                  onClick={() =>
+                    onLoadTimers(selectedRecipe.timers, "merge", recipeLink(selectedRecipe))
+                  }
+                  title="Add the saved timers that aren't already on the grid"
+                >
+                  Merge into grid
+                </button>
+              </>
+            )}
+            {canModifyRecipe(user, selectedRecipe) && (
+              <button onClick={() => saveTimers(selectedRecipe)}>
+                {selectedRecipe.timers.length > 0 ? "Update saved timers" : "Save current timers"}
+              </button>
+            )}
+            {presetStatus && <span className="preset-status">{presetStatus}</span>}
+          </div>
+          {selectedRecipe.ingredients.length > 0 && (
+            <div className="scale-bar">
+              <ServingsControl
+                baseServings={selectedRecipe.servings}
+                scale={scale}
+                onChange={(next) => {
+                  setScaling({ recipeId: selectedRecipe.id, factor: next.factor });
+                  setSystem(next.system);
+                }}
+              />
+            </div>
+          )}
           <div className="recipe-text">
-            {selectedRecipe.content.split('\n').map((line, i) => (
-              <React.Fragment key={i}>
-                {line}
-                {i < selectedRecipe.content.split('\n').length - 1 && <br />}
-              </React.Fragment>
-            ))}
+            <RecipeBody
+              recipe={selectedRecipe}
+              onStartTimer={(timer) =>
+                onStartTimer({ ...timer, recipe: recipeLink(selectedRecipe) })
+              }
+              scale={scale}
+            />
           </div>
         </div>
       )}
@@ -167,6 +269,7 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
 
         .recipe-selector {
           display: flex;
+          flex-wrap: wrap;
           align-items: center;
           gap: 8px;
           flex: 1;
@@ -177,16 +280,6 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
           font-size: 14px;
         }
 
-        .recipe-selector select {
-          flex: 1;
-          max-width: 300px;
-          padding: 6px 10px;
-          border: 1px solid #e5e7eb;
-          border-radius: 8px;
-          font-size: 14px;
-          background: white;
-        }
-
         .recipe-controls {
           display: flex;
           gap: 8px;
@@ -212,10 +305,26 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
           font-weight: 700;
         }
 
+        .preset-bar {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          margin: -4px 0 12px;
+        }
+
+        .scale-bar {
+          margin: -4px 0 12px;
+        }
+
+        .preset-status {
+          color: #6b7280;
+          font-size: 13px;
+        }
+
         .recipe-text {
           font-size: 15px;
           line-height: 1.6;
-          white-space: pre-wrap;
         }
 
         button {
@@ -243,12 +352,6 @@ export default function RecipeViewer({ onManageRecipes }: RecipeViewerProps) {
             border-color: #26272b;
           }
 
-          .recipe-selector select {
-            background: #0b0b0c;
-            border-color: #26272b;
-            color: #e5e7eb;
-          }
-
           .recipe-viewer-content h3 {
             color: #e5e7eb;
           }
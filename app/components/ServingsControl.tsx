@@ -0,0 +1,143 @@
+"use client";
+import React from "react";
+import { IngredientScale, MeasureSystem } from "@/app/lib/ingredients";
+
+interface ServingsControlProps {
+  baseServings: number | null; // what the recipe is written for, if it says
+  scale: IngredientScale;
+  onChange: (scale: IngredientScale) => void;
+}
+
+const SYSTEMS: { value: MeasureSystem | null; label: string }[] = [
+  { value: null, label: "As written" },
+  { value: "metric", label: "Metric" },
+  { value: "us", label: "US" },
+];
+
+// Servings stepper and units picker for the recipe on screen. Recipes that don't say how many they
+// serve are scaled by a multiplier in halves instead.
+export default function ServingsControl({ baseServings, scale, onChange }: ServingsControlProps) {
+  // Whole servings, or halves of the recipe.
+  const value = baseServings ? Math.round(baseServings * scale.factor) : scale.factor;
+  const min = baseServings ? 1 : 0.5;
+  const setValue = (next: number) => {
+    const clamped = Math.max(min, next);
+    onChange({ ...scale, factor: baseServings ? clamped / baseServings : clamped });
+  };
+
+  return (
+    <div className="servings-control">
+      <span className="label">{baseServings ? "Servings" : "Scale"}</span>
+      <button
+        onClick={() => setValue(value - min)}
+        disabled={value <= min}
+        aria-label={baseServings ? "Fewer servings" : "Scale down"}
+      >
+        −
+      </button>
+      <span className="value" aria-live="polite">
+        {baseServings ? value : `×${value}`}
+      </span>
+      <button
+        onClick={() => setValue(value + min)}
+        aria-label={baseServings ? "More servings" : "Scale up"}
+      >
+        +
+      </button>
+      {scale.factor !== 1 && (
+        <button className="reset" onClick={() => onChange({ ...scale, factor: 1 })}>
+          Reset
+        </button>
+      )}
+      <select
+        value={scale.system ?? ""}
+        onChange={(e) =>
+          onChange({ ...scale, system: (e.target.value || null) as MeasureSystem | null })
+        }
+        aria-label="Units"
+      >
+        {SYSTEMS.map(({ value, label }) => (
+          <option key={label} value={value ?? ""}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      <style jsx>{`
+        .servings-control {
+          display: inline-flex;
+          align-items: center;
+          gap: 6px;
+          font-size: 14px;
+        }
+
+        .label {
+          font-weight: 600;
+        }
+
+        .value {
+          min-width: 2.5em;
+          text-align: center;
+          font-weight: 700;
+          font-variant-numeric: tabular-nums;
+        }
+
+        button {
+          appearance: none;
+          border: 1px solid #e5e7eb;
+          background: #f9fafb;
+          border-radius: 9999px;
+          width: 28px;
+          height: 28px;
+          padding: 0;
+          font-weight: 700;
+          font-size: 14px;
+          cursor: pointer;
+        }
+
+        button.reset {
+          width: auto;
+          padding: 0 10px;
+        }
+
+        button:hover {
+          background: #f3f4f6;
+        }
+
+        button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        select {
+          padding: 4px 8px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+          font-size: 14px;
+          background: transparent;
+          color: inherit;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          button {
+            border-color: #26272b;
+            background: #1a1b1e;
+            color: #e5e7eb;
+          }
+
+          button:hover {
+            background: #232428;
+          }
+
+          select {
+            border-color: #26272b;
+          }
+
+          select option {
+            background: #111214;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
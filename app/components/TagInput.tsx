@@ -0,0 +1,125 @@
+"use client";
+import React, { useId, useState } from "react";
+import { cleanTags } from "@/app/lib/recipes";
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // existing tags, offered as the user types
+}
+
+// Free-form tags shown as removable chips. Enter or a comma adds what's typed; Backspace in the
+// empty box removes the last tag.
+export default function TagInput({ tags, onChange, suggestions }: TagInputProps) {
+  const [text, setText] = useState("");
+  const listId = useId();
+
+  const add = (value: string) => {
+    const next = cleanTags([...tags, value]);
+    if (next.length !== tags.length) onChange(next);
+    setText("");
+  };
+
+  return (
+    <div className="tag-input">
+      {tags.map((tag) => (
+        <span key={tag} className="chip">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter((t) => t !== tag))}
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        list={listId}
+        placeholder={tags.length ? "Add tag" : "Tags, e.g. vegetarian"}
+        value={text}
+        onChange={(e) => {
+          const value = e.target.value;
+          if (value.endsWith(",")) add(value.slice(0, -1));
+          else setText(value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            add(text);
+          } else if (e.key === "Backspace" && !text && tags.length) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        onBlur={() => text.trim() && add(text)}
+        aria-label="Add tag"
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter((s) => !tags.includes(s))
+          .map((s) => (
+            <option key={s} value={s} />
+          ))}
+      </datalist>
+
+      <style jsx>{`
+        .tag-input {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 4px;
+          flex: 1;
+          padding: 4px 6px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+        }
+
+        .chip {
+          display: inline-flex;
+          align-items: center;
+          gap: 2px;
+          padding: 2px 4px 2px 8px;
+          border-radius: 9999px;
+          background: #eef2ff;
+          color: #3730a3;
+          font-size: 13px;
+          font-weight: 600;
+        }
+
+        .chip button {
+          appearance: none;
+          border: none;
+          background: none;
+          padding: 0 4px;
+          color: inherit;
+          cursor: pointer;
+          font-size: 13px;
+        }
+
+        input {
+          flex: 1;
+          min-width: 100px;
+          border: none;
+          outline: none;
+          padding: 4px;
+          font-size: 14px;
+          font-family: inherit;
+          background: transparent;
+          color: inherit;
+        }
+
+        @media (prefers-color-scheme: dark) {
+          .tag-input {
+            background: #0b0b0c;
+            border-color: #26272b;
+          }
+
+          .chip {
+            background: #1e1b4b;
+            color: #c7d2fe;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
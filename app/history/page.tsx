@@ -0,0 +1,239 @@
+"use client";
+import React, { useState } from "react";
+import Link from "next/link";
+import { useTimerHistory } from "../hooks/useTimerHistory";
+import { formatClock } from "../lib/time";
+import { RunStats, runLabel, summarizeRuns } from "../lib/timerHistory";
+
+// Timer history: every run that ended with a reset or delete on the main page, with averages per
+// label so "how long does proofing really take us?" has an answer to hold against the recipe.
+// The log lives in this browser's localStorage (see lib/timerHistory.ts).
+
+// Recipe filter values besides recipe ids.
+const ALL = "";
+const NO_RECIPE = "none";
+
+// "+1:30" over, "-0:45" under.
+const signed = (ms: number) => `${ms < 0 ? "-" : "+"}${formatClock(Math.abs(ms))}`;
+
+const when = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export default function HistoryPage() {
+  const { runs, loaded, remove } = useTimerHistory();
+  const [recipeId, setRecipeId] = useState(ALL);
+  const [label, setLabel] = useState("");
+
+  // Every recipe that appears in the log, by its most recent title.
+  const recipes = new Map<string, string>();
+  for (const run of runs) if (run.recipe) recipes.set(run.recipe.id, run.recipe.title);
+
+  const needle = label.trim().toLowerCase();
+  const shown = runs.filter(
+    (run) =>
+      (recipeId === ALL ||
+        (recipeId === NO_RECIPE ? run.recipe === null : run.recipe?.id === recipeId)) &&
+      runLabel(run).includes(needle)
+  );
+  const stats = summarizeRuns(shown);
+
+  const removeShown = () => {
+    const count = shown.length;
+    if (confirm(`Delete ${count} run${count === 1 ? "" : "s"} from the history?`)) {
+      remove(shown.map((run) => run.id));
+    }
+  };
+
+  return (
+    <main className="container">
+      <header className="top">
+        <h1>Timer History</h1>
+        <Link href="/" className="back">
+          Back to Stopwatches
+        </Link>
+      </header>
+
+      <p className="hint">
+        A run is logged whenever a timer that ran is reset or deleted. Compare how long things
+        really take with what the recipe says.
+      </p>
+
+      <div className="filters">
+        <select value={recipeId} onChange={(e) => setRecipeId(e.target.value)} aria-label="Recipe">
+          <option value={ALL}>All recipes</option>
+          {[...recipes].map(([id, title]) => (
+            <option key={id} value={id}>
+              {title}
+            </option>
+          ))}
+          <option value={NO_RECIPE}>No recipe</option>
+        </select>
+        <input
+          placeholder="Filter by label (e.g. proofing)"
+          aria-label="Label"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        {shown.length > 0 && (
+          <button className="danger" onClick={removeShown}>
+            Delete {shown.length === runs.length ? "all" : "these"} runs
+          </button>
+        )}
+      </div>
+
+      {loaded && shown.length === 0 && (
+        <p className="empty">
+          {runs.length === 0 ? "No runs logged yet." : "No runs match these filters."}
+        </p>
+      )}
+
+      {stats.length > 0 && (
+        <section className="stats">
+          {stats.map((s) => (
+            <StatsCard key={s.label} stats={s} />
+          ))}
+        </section>
+      )}
+
+      {shown.length > 0 && (
+        <table className="runs">
+          <thead>
+            <tr>
+              <th>Started</th>
+              <th>Timer</th>
+              <th>Recipe</th>
+              <th className="num">Time</th>
+              <th className="num">Target</th>
+              <th className="num">Laps</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {[...shown].reverse().map((run) => (
+              <tr key={run.id}>
+                <td>{when(run.startedAt)}</td>
+                <td>{run.name || "(unnamed)"}</td>
+                <td>{run.recipe?.title ?? "—"}</td>
+                <td className="num">{formatClock(run.elapsed)}</td>
+                <td className="num">
+                  {run.target != null ? (
+                    <>
+                      {formatClock(run.target)}{" "}
+                      <span className={run.elapsed > run.target ? "over" : "under"}>
+                        ({signed(run.elapsed - run.target)})
+                      </span>
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                <td className="num">{run.laps.length || ""}</td>
+                <td>
+                  <button className="link" onClick={() => remove([run.id])} aria-label="Delete run">
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <style jsx>{`
+        .container { max-width: 960px; margin: 0 auto; padding: 24px; font-family: system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif; }
+        .top { display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 10px; }
+        h1 { margin: 0; font-size: 24px; font-weight: 800; letter-spacing: -0.02em; }
+        .top :global(.back) { border: 1px solid #e5e7eb; background: #f9fafb; border-radius: 9999px; padding: 8px 14px; font-weight: 700; color: inherit; text-decoration: none; }
+        .hint, .empty { color: #6b7280; margin: 0 0 18px; }
+        .filters { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 18px; }
+        select, input { font-size: 14px; border: 1px solid #e5e7eb; border-radius: 10px; padding: 8px 10px; background: #fff; }
+        input { flex: 1; min-width: 180px; }
+        .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 16px; margin-bottom: 24px; }
+        .runs { width: 100%; border-collapse: collapse; font-size: 14px; font-variant-numeric: tabular-nums; }
+        .runs th { text-align: left; color: #6b7280; font-weight: 600; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+        .runs td { padding: 6px 8px; border-bottom: 1px solid #f3f4f6; }
+        .num { text-align: right; }
+        .runs th.num { text-align: right; }
+        .over { color: #b91c1c; }
+        .under { color: #15803d; }
+        button { appearance: none; border: 1px solid #e5e7eb; background: #f9fafb; border-radius: 9999px; padding: 8px 14px; font-weight: 700; cursor: pointer; }
+        button.danger { background: #fef2f2; border-color: #ef4444; color: #991b1b; }
+        button.link { border: none; background: none; padding: 0 4px; color: #9ca3af; }
+        button.link:hover { color: #991b1b; }
+        @media (prefers-color-scheme: dark) {
+          .container { background: #0b0b0c; color: #e5e7eb; }
+          .top :global(.back), button { border-color: #26272b; background: #1a1b1e; color: #e5e7eb; }
+          .hint, .empty, .runs th { color: #9ca3af; }
+          select, input { background: #0b0b0c; border-color: #26272b; color: #e5e7eb; }
+          .runs th { border-color: #26272b; }
+          .runs td { border-color: #1a1b1e; }
+          .over { color: #f87171; }
+          .under { color: #4ade80; }
+          button.danger { background: #2b1617; border-color: #ef4444; color: #fecaca; }
+          button.link { background: none; color: #6b7280; }
+        }
+      `}</style>
+    </main>
+  );
+}
+
+// One label's runs at a glance: the average against the target, whether it's been getting
+// slower or faster, and a bar per recent run.
+function StatsCard({ stats }: { stats: RunStats }) {
+  const longest = Math.max(...stats.recent);
+
+  return (
+    <article className="card">
+      <h2>{stats.label}</h2>
+      <div className="average">{formatClock(stats.average)}</div>
+      <div className="detail">
+        average of {stats.runs} run{stats.runs === 1 ? "" : "s"}
+        {stats.runs > 1 && ` · ${formatClock(stats.fastest)}–${formatClock(stats.slowest)}`}
+      </div>
+      {stats.averageTarget != null && stats.overTarget != null && (
+        <div className="detail">
+          recipe says {formatClock(stats.averageTarget)};{" "}
+          <span className={stats.overTarget > 0 ? "over" : "under"}>
+            {signed(stats.overTarget)} on average
+          </span>
+        </div>
+      )}
+      {stats.trend != null && (
+        <div className="detail">
+          recent runs {stats.trend > 0 ? "slower" : "faster"} by {formatClock(Math.abs(stats.trend))}
+        </div>
+      )}
+      {stats.recent.length > 1 && (
+        <div className="bars" aria-hidden="true">
+          {stats.recent.map((ms, i) => (
+            <span
+              key={i}
+              style={{ height: `${Math.max(4, (ms / longest) * 100)}%` }}
+              title={formatClock(ms)}
+            />
+          ))}
+        </div>
+      )}
+
+      <style jsx>{`
+        .card { background: #fff; border: 1px solid #e5e7eb; border-radius: 16px; padding: 14px; box-shadow: 0 2px 8px rgba(0,0,0,0.04); }
+        h2 { margin: 0 0 4px; font-size: 15px; font-weight: 700; }
+        .average { font-variant-numeric: tabular-nums; font-size: 28px; font-weight: 800; }
+        .detail { color: #6b7280; font-size: 13px; margin-top: 2px; }
+        .over { color: #b91c1c; font-weight: 600; }
+        .under { color: #15803d; font-weight: 600; }
+        .bars { display: flex; align-items: flex-end; gap: 3px; height: 36px; margin-top: 10px; }
+        .bars span { flex: 1; background: #d1d5db; border-radius: 2px 2px 0 0; }
+        .bars span:last-child { background: #111827; }
+        @media (prefers-color-scheme: dark) {
+          .card { background: #111214; border-color: #26272b; }
+          .detail { color: #9ca3af; }
+          .over { color: #f87171; }
+          .under { color: #4ade80; }
+          .bars span { background: #3f3f46; }
+          .bars span:last-child { background: #e5e7eb; }
+        }
+      `}</style>
+    </article>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+import { useEffect, useState } from "react";
+import { User } from "@/app/types/user";
+
+// The signed-in user as reported by /api/auth, plus sign-in/out actions.
+export function useCurrentUser() {
+  const [user, setUser] = useState<User | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/auth")
+      .then((response) => response.json())
+      .then((data: { user: User | null }) => setUser(data.user))
+      .catch((err) => console.error(err))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Resolves to an error message, or null on success.
+  const signIn = async (username: string, password: string): Promise<string | null> => {
+    try {
+      const response = await fetch("/api/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) return data.error?.message || "Failed to sign in";
+      setUser(data.user);
+      return null;
+    } catch (err) {
+      console.error(err);
+      return "Failed to sign in";
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch("/api/auth", { method: "DELETE" });
+      setUser(null);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  return { user, loaded, signIn, signOut };
+}
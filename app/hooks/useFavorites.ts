@@ -0,0 +1,47 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@/app/types/user";
+import { recipeApi } from "@/app/lib/api";
+import { recipeCache } from "@/app/lib/recipeCache";
+
+// The signed-in user's favourite recipe ids, refetched whenever the user changes. Searches
+// filtered to favourites are refetched along with them.
+export function useFavorites(user: User | null) {
+  const [favorites, setFavorites] = useState<ReadonlySet<string>>(new Set());
+
+  useEffect(() => {
+    recipeCache.invalidateFavorites();
+    if (!user) {
+      setFavorites(new Set());
+      return;
+    }
+    recipeApi
+      .favorites()
+      .then((ids) => setFavorites(new Set(ids)))
+      .catch((err) => console.error(err));
+  }, [user]);
+
+  // Optimistic: the star flips straight away and flips back if the save fails.
+  const toggleFavorite = useCallback(
+    async (id: string) => {
+      const favorite = !favorites.has(id);
+      const set = (on: boolean) =>
+        setFavorites((current) => {
+          const next = new Set(current);
+          if (on) next.add(id);
+          else next.delete(id);
+          return next;
+        });
+      set(favorite);
+      try {
+        await recipeCache.setFavorite(id, favorite);
+      } catch (err) {
+        set(!favorite);
+        console.error(err);
+      }
+    },
+    [favorites]
+  );
+
+  return { favorites, toggleFavorite };
+}
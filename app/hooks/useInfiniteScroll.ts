@@ -0,0 +1,33 @@
+"use client";
+import { useEffect, useRef } from "react";
+
+// Calls onReachEnd whenever the returned ref's element is in view (or within `margin` of it). Put
+// the ref on a sentinel after the last item of a list, and pass the item count so the check runs
+// again after each page lands: a short page can leave the sentinel visible.
+export function useInfiniteScroll<T extends HTMLElement>(
+  onReachEnd: () => void,
+  itemCount: number,
+  margin = "100px"
+) {
+  const ref = useRef<T>(null);
+  const callback = useRef(onReachEnd);
+
+  useEffect(() => {
+    callback.current = onReachEnd;
+  });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) callback.current();
+      },
+      { rootMargin: margin }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [itemCount, margin]);
+
+  return ref;
+}
@@ -0,0 +1,164 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { KitchenSession } from "@/app/types/timer";
+import { ApiError, errorMessage, sessionApi } from "@/app/lib/api";
+import { normalizeSessionCode } from "@/app/lib/sessions";
+import { StopwatchGrid, aheadOf } from "@/app/lib/stopwatchSync";
+
+// The code of the session this device is in, shared by all its tabs.
+const SESSION_KEY = "kitchen-session-v1";
+const POLL_MS = 2_000;
+// Wait this long after a local change before pushing it, so typing a name isn't a request per key.
+const PUSH_DELAY_MS = 300;
+
+export type SessionStatus = "connecting" | "synced" | "offline";
+
+function remember(code: string | null) {
+  try {
+    if (code) localStorage.setItem(SESSION_KEY, code);
+    else localStorage.removeItem(SESSION_KEY);
+  } catch (e) {
+    console.error("Failed to persist kitchen session", e);
+  }
+}
+
+// Keeps the stopwatch grid (from useStopwatches) in step with a kitchen session on the server.
+// While visible it polls every POLL_MS, and pushes the grid soon after it gets ahead of the
+// server's copy. The grid never stops working locally: while offline, changes pile up and go out
+// with the first push that gets through, and the server merges them like any other.
+export function useKitchenSession(
+  grid: StopwatchGrid,
+  merge: (remote: StopwatchGrid) => void,
+  adopt: (next: StopwatchGrid) => void
+) {
+  const [code, setCode] = useState<string | null>(null);
+  const [status, setStatus] = useState<SessionStatus>("connecting");
+  const [error, setError] = useState<string | null>(null);
+  // The session as the server last sent it; whatever the grid has beyond that needs pushing.
+  const server = useRef<KitchenSession | null>(null);
+  const latest = useRef(grid);
+  const syncNow = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    latest.current = grid;
+  }, [grid]);
+
+  useEffect(() => {
+    try {
+      setCode(localStorage.getItem(SESSION_KEY));
+    } catch (e) {
+      console.error("Failed to load kitchen session", e);
+    }
+    // Another tab joined or left.
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== SESSION_KEY) return;
+      server.current = null;
+      setCode(e.newValue);
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const leave = useCallback(() => {
+    server.current = null;
+    remember(null);
+    setCode(null);
+  }, []);
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+    let busy = false;
+
+    // Fetches when there's nothing to send, so a tab that has just learned the code from another
+    // tab looks before pushing what may be a grid it's about to drop.
+    const sync = async () => {
+      if (busy) return;
+      busy = true;
+      try {
+        const known = server.current;
+        const remote =
+          known && aheadOf(latest.current, known)
+            ? await sessionApi.push(code, latest.current)
+            : await sessionApi.get(code);
+        if (cancelled) return;
+        server.current = remote;
+        merge(remote);
+        setStatus("synced");
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        if (err instanceof ApiError && err.status === 404) {
+          setError(err.message);
+          leave();
+        } else if (err instanceof ApiError && err.status < 500) {
+          // The server is there but refused the grid; retrying won't help until it changes.
+          setError(`Your changes aren't being shared: ${err.message}`);
+        } else {
+          setStatus("offline");
+        }
+      } finally {
+        busy = false;
+      }
+    };
+    syncNow.current = () => void sync();
+
+    setStatus("connecting");
+    void sync();
+    const interval = window.setInterval(() => {
+      if (!document.hidden) void sync();
+    }, POLL_MS);
+    const onWake = () => {
+      if (!document.hidden) void sync();
+    };
+    document.addEventListener("visibilitychange", onWake);
+    window.addEventListener("online", onWake);
+
+    return () => {
+      cancelled = true;
+      syncNow.current = () => {};
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", onWake);
+      window.removeEventListener("online", onWake);
+    };
+  }, [code, merge, leave]);
+
+  useEffect(() => {
+    if (!server.current || !aheadOf(grid, server.current)) return;
+    const timeout = window.setTimeout(() => syncNow.current(), PUSH_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [grid]);
+
+  // These resolve to an error message, or null on success.
+  const start = async (): Promise<string | null> => {
+    try {
+      const session = await sessionApi.create(latest.current);
+      server.current = session;
+      remember(session.code);
+      setError(null);
+      setCode(session.code);
+      return null;
+    } catch (err) {
+      return errorMessage(err, "Couldn't start a session");
+    }
+  };
+
+  // The session's timers replace this device's.
+  const join = async (input: string): Promise<string | null> => {
+    const joining = normalizeSessionCode(input);
+    if (!joining) return "Session codes are 6 letters and digits";
+    try {
+      const session = await sessionApi.get(joining);
+      server.current = session;
+      adopt(session);
+      remember(session.code);
+      setError(null);
+      setCode(session.code);
+      return null;
+    } catch (err) {
+      return errorMessage(err, "Couldn't join the session");
+    }
+  };
+
+  return { code, status, error, dismissError: () => setError(null), start, join, leave };
+}
@@ -0,0 +1,12 @@
+"use client";
+import { useEffect, useSyncExternalStore } from "react";
+import { recipeCache } from "@/app/lib/recipeCache";
+
+// One recipe from the shared cache, kept up to date with saves made here or elsewhere. undefined
+// while loading, null if it has been deleted.
+export function useRecipe(id: string | null) {
+  useEffect(() => (id ? recipeCache.watchRecipe(id) : undefined), [id]);
+
+  const get = () => (id ? recipeCache.getRecipe(id) : null);
+  return useSyncExternalStore(recipeCache.subscribe, get, get);
+}
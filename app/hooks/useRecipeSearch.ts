@@ -0,0 +1,54 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { recipeCache, SearchOptions } from "@/app/lib/recipeCache";
+import { recipeQueryString } from "@/app/lib/search";
+
+// Pages of GET /api/recipes for a query, from the shared recipe cache. A changed query starts
+// over from the first page after a short pause (so typing doesn't send a request per key);
+// loadMore appends the next page. Saves made anywhere on the page, and by other kitchens, show up
+// without a reload.
+export function useRecipeSearch(options: SearchOptions, debounceMs = 250) {
+  // Callers pass a new object every render; this one only changes with the query itself.
+  const { q, tag, category, favorites, sort, order, limit } = options;
+  const query = useMemo(
+    () => ({ q, tag, category, favorites, sort, order, limit }),
+    [q, tag, category, favorites, sort, order, limit]
+  );
+  const [active, setActive] = useState(query);
+
+  useEffect(() => {
+    const search = recipeQueryString(query);
+    const timeout = setTimeout(
+      () => setActive((current) => (recipeQueryString(current) === search ? current : query)),
+      debounceMs
+    );
+    return () => clearTimeout(timeout);
+  }, [query, debounceMs]);
+
+  useEffect(() => recipeCache.watchQuery(active), [active]);
+
+  const snapshot = useSyncExternalStore(
+    recipeCache.subscribe,
+    () => recipeCache.getQuery(active),
+    () => recipeCache.getQuery(active)
+  );
+
+  // Until a new query has its first page, keep showing the previous results rather than nothing.
+  const [lastLoaded, setLastLoaded] = useState(snapshot);
+  useEffect(() => {
+    if (snapshot.loaded) setLastLoaded(snapshot);
+  }, [snapshot]);
+  const { recipes, hasMore } = snapshot.loaded ? snapshot : lastLoaded;
+
+  const loadMore = useCallback(() => recipeCache.loadMore(active), [active]);
+  const reload = useCallback(() => recipeCache.reload(active), [active]);
+
+  return {
+    recipes,
+    loading: snapshot.loading,
+    error: snapshot.error,
+    hasMore: snapshot.loaded && hasMore,
+    loadMore,
+    reload,
+  };
+}
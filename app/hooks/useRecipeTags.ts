@@ -0,0 +1,16 @@
+"use client";
+import { useEffect, useSyncExternalStore } from "react";
+import { TagCount } from "@/app/types/recipe";
+import { recipeCache } from "@/app/lib/recipeCache";
+
+const NO_TAGS: TagCount[] = [];
+
+// Tags in use across all recipes, most used first. Refetched after any recipe changes.
+export function useRecipeTags() {
+  useEffect(() => recipeCache.watchTags(), []);
+
+  const get = () => recipeCache.getTags() ?? NO_TAGS;
+  const tags = useSyncExternalStore(recipeCache.subscribe, get, get);
+
+  return { tags };
+}
@@ -0,0 +1,198 @@
+"use client";
+import { SetStateAction, useCallback, useEffect, useRef, useState } from "react";
+import { Stopwatch, TimerMode, TimerRun } from "@/app/types/timer";
+import {
+  Clock,
+  addLap,
+  dismissAlert,
+  newStopwatch,
+  renameStopwatch,
+  resetStopwatch,
+  setCountdownDuration,
+  setStopwatchMode,
+  snoozeAlert,
+  startStopwatch,
+  stopStopwatch,
+  systemClock,
+} from "@/app/lib/stopwatch";
+import {
+  LoadResult,
+  STORAGE_KEY,
+  loadStopwatches,
+  parseSavedGrid,
+  saveStopwatches,
+} from "@/app/lib/stopwatchStorage";
+import {
+  StopwatchGrid,
+  adoptGrid,
+  commitGrid,
+  emptyGrid,
+  mergeGrids,
+} from "@/app/lib/stopwatchSync";
+import { appendRun, runOf } from "@/app/lib/timerHistory";
+
+// The stopwatch grid as React state: the engine in app/lib/stopwatch.ts, saved to localStorage,
+// kept in step with the app's other tabs, and re-rendered often enough for the hundredths to move.
+// `clock` must be a stable function.
+export function useStopwatches(clock: Clock = systemClock) {
+  const [grid, setGrid] = useState<StopwatchGrid>(emptyGrid);
+  const { stopwatches } = grid;
+  // The time the screen shows, advanced 50x/sec; the stopwatches themselves only store start times.
+  const [now, setNow] = useState(clock);
+  // Nothing is saved until the stored grid has been read, so the empty first render can't
+  // overwrite it.
+  const [hydrated, setHydrated] = useState(false);
+  // Saved data that couldn't be read and was set aside, for the page to mention.
+  const [quarantine, setQuarantine] = useState<LoadResult["quarantine"]>(null);
+  // For callbacks that outlive a render, such as adopt after a session has been fetched.
+  const latest = useRef(grid);
+
+  useEffect(() => {
+    latest.current = grid;
+  }, [grid]);
+
+  // Load from localStorage on first mount, then follow what other tabs save.
+  useEffect(() => {
+    try {
+      const { grid: saved, quarantine: setAside, canSave } = loadStopwatches(localStorage, clock());
+      // One stopwatch to start with on first use, or when nothing saved could be read.
+      const fresh =
+        saved === null || ((setAside !== null || !canSave) && saved.stopwatches.length === 0);
+      setGrid(fresh ? commitGrid(emptyGrid(), [newStopwatch("Stopwatch 1")], clock()) : saved);
+      setQuarantine(setAside);
+      if (setAside) console.warn(`Saved stopwatches kept in ${setAside.key}: ${setAside.reason}`);
+      // Left unhydrated, nothing is saved over what couldn't be set aside.
+      if (canSave) setHydrated(true);
+      else console.error("Saved stopwatches couldn't be read or set aside; not saving over them");
+    } catch (e) {
+      // localStorage itself is unavailable (e.g. blocked); run without saving or syncing.
+      setGrid(commitGrid(emptyGrid(), [newStopwatch("Stopwatch 1")], clock()));
+      console.error("Failed to load stopwatches", e);
+      return;
+    }
+
+    // Only fires for other tabs' writes. Merging is deterministic, so every tab settles on the
+    // same grid; an unchanged merge keeps the same state and isn't saved again.
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== STORAGE_KEY || e.newValue == null) return;
+      const remote = parseSavedGrid(e.newValue);
+      if (remote) setGrid((local) => mergeGrids(local, remote));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [clock]);
+
+  // Persist to localStorage whenever state changes
+  useEffect(() => {
+    if (!hydrated) return;
+    try {
+      saveStopwatches(localStorage, grid, clock());
+    } catch (e) {
+      console.error("Failed to persist stopwatches", e);
+    }
+  }, [grid, hydrated, clock]);
+
+  // Every local change goes through here, so it's stamped for merging with other tabs.
+  const change = useCallback(
+    (next: (stopwatches: Stopwatch[], now: number) => Stopwatch[]) =>
+      setGrid((prev) => {
+        const t = clock();
+        return commitGrid(prev, next(prev.stopwatches, t), t);
+      }),
+    [clock]
+  );
+
+  const setStopwatches = useCallback(
+    (next: SetStateAction<Stopwatch[]>) =>
+      change((prev) => (typeof next === "function" ? next(prev) : next)),
+    [change]
+  );
+
+  // Lightweight render loop for the on-screen time (not the source of truth)
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(clock()), 20);
+
+    const onWake = () => setNow(clock());
+    document.addEventListener("visibilitychange", onWake);
+    window.addEventListener("focus", onWake);
+
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", onWake);
+      window.removeEventListener("focus", onWake);
+    };
+  }, [clock]);
+
+  // Applies an engine transition to one stopwatch at the moment of the call.
+  const update = (id: string, transition: (sw: Stopwatch, now: number) => Stopwatch) =>
+    change((prev, t) => prev.map((sw) => (sw.id === id ? transition(sw, t) : sw)));
+
+  // Timers that are reset, deleted or replaced log the runs they're ending first (see
+  // app/lib/timerHistory.ts).
+  const logRuns = useCallback(
+    (ended: Stopwatch[], endedBy: TimerRun["endedBy"]) => {
+      const t = clock();
+      for (const sw of ended) {
+        const run = runOf(sw, t, endedBy);
+        if (!run) continue;
+        try {
+          appendRun(localStorage, run);
+        } catch (e) {
+          console.error("Failed to log timer run", e);
+        }
+      }
+    },
+    [clock]
+  );
+  const logRun = (id: string, endedBy: TimerRun["endedBy"]) =>
+    logRuns(stopwatches.filter((sw) => sw.id === id), endedBy);
+
+  // For a kitchen session (useKitchenSession): take in the server's copy, or replace ours with it.
+  const merge = useCallback(
+    (remote: StopwatchGrid) => setGrid((local) => mergeGrids(local, remote)),
+    []
+  );
+  const adopt = useCallback(
+    (next: StopwatchGrid) => {
+      const kept = new Set(next.stopwatches.map((sw) => sw.id));
+      logRuns(latest.current.stopwatches.filter((sw) => !kept.has(sw.id)), "delete");
+      setGrid((prev) => adoptGrid(prev, next, clock()));
+    },
+    [clock, logRuns]
+  );
+
+  return {
+    grid,
+    stopwatches,
+    setStopwatches,
+    merge,
+    adopt,
+    now,
+    clock,
+    quarantine,
+    dismissQuarantine: () => setQuarantine(null),
+    add: (sw: Stopwatch) => setStopwatches((prev) => [...prev, sw]),
+    // Swaps the whole grid for `next`, e.g. a recipe's timers.
+    replaceAll: (next: Stopwatch[]) => {
+      logRuns(stopwatches, "delete");
+      setStopwatches(next);
+    },
+    remove: (id: string) => {
+      logRun(id, "delete");
+      setStopwatches((prev) => prev.filter((sw) => sw.id !== id));
+    },
+    start: (id: string) => update(id, startStopwatch),
+    stop: (id: string) => update(id, stopStopwatch),
+    reset: (id: string) => {
+      logRun(id, "reset");
+      update(id, resetStopwatch);
+    },
+    lap: (id: string) => update(id, addLap),
+    rename: (id: string, name: string) => update(id, (sw) => renameStopwatch(sw, name)),
+    setMode: (id: string, mode: TimerMode) => update(id, (sw) => setStopwatchMode(sw, mode)),
+    setDuration: (id: string, duration: number) =>
+      update(id, (sw) => setCountdownDuration(sw, duration)),
+    dismissAlert: (id: string) => update(id, dismissAlert),
+    snooze: (id: string) => update(id, snoozeAlert),
+  };
+}
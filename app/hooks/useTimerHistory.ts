@@ -0,0 +1,39 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { TimerRun } from "@/app/types/timer";
+import { HISTORY_KEY, loadHistory, removeRuns } from "@/app/lib/timerHistory";
+
+// The timer history log (oldest run first), kept current as any tab logs or removes runs.
+export function useTimerHistory() {
+  const [runs, setRuns] = useState<TimerRun[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const load = () => {
+      try {
+        setRuns(loadHistory(localStorage));
+      } catch (e) {
+        console.error("Failed to load timer history", e);
+      }
+    };
+    load();
+    setLoaded(true);
+
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === HISTORY_KEY) load();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const remove = useCallback((ids: string[]) => {
+    try {
+      removeRuns(localStorage, ids);
+      setRuns(loadHistory(localStorage));
+    } catch (e) {
+      console.error("Failed to update timer history", e);
+    }
+  }, []);
+
+  return { runs, loaded, remove };
+}
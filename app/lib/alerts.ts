@@ -0,0 +1,72 @@
+// Countdown alerts: a chime generated with the Web Audio API (no audio assets to download)
+// and a system notification for when the tab is in the background.
+//
+// Browsers only allow audio to start after a user gesture, so call primeAlerts() from a click
+// handler (e.g. the Start button) before the first alert is due.
+
+type AudioContextCtor = typeof AudioContext;
+
+let audioCtx: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === "undefined") return null;
+  if (!audioCtx) {
+    const Ctor: AudioContextCtor | undefined =
+      window.AudioContext ??
+      (window as unknown as { webkitAudioContext?: AudioContextCtor }).webkitAudioContext;
+    if (!Ctor) return null;
+    audioCtx = new Ctor();
+  }
+  return audioCtx;
+}
+
+// Unlocks audio playback and asks for notification permission. Must run inside a user gesture.
+export function primeAlerts() {
+  const ctx = getAudioContext();
+  if (ctx && ctx.state === "suspended") {
+    ctx.resume().catch((e) => console.error("Failed to resume audio", e));
+  }
+  if (typeof Notification !== "undefined" && Notification.permission === "default") {
+    Notification.requestPermission().catch((e) =>
+      console.error("Failed to request notification permission", e)
+    );
+  }
+}
+
+// Three rising bell-like tones, roughly one second in total.
+export function playChime() {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+  if (ctx.state === "suspended") ctx.resume().catch(() => {});
+
+  const start = ctx.currentTime + 0.02;
+  [880, 1174.66, 1567.98].forEach((freq, i) => {
+    const t = start + i * 0.22;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = "sine";
+    osc.frequency.setValueAtTime(freq, t);
+    gain.gain.setValueAtTime(0.0001, t);
+    gain.gain.exponentialRampToValueAtTime(0.35, t + 0.015);
+    gain.gain.exponentialRampToValueAtTime(0.0001, t + 0.6);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(t);
+    osc.stop(t + 0.65);
+  });
+}
+
+// Shows a system notification if permitted. Notifications with the same tag replace each other,
+// so repeated alerts for one timer don't stack up.
+export function notify(title: string, body: string, tag: string) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  try {
+    const n = new Notification(title, { body, tag });
+    n.onclick = () => {
+      window.focus();
+      n.close();
+    };
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.error("Failed to show notification", e);
+  }
+}
@@ -0,0 +1,136 @@
+import { ApiErrorBody, ApiErrorCode, FieldErrors } from "@/app/types/api";
+import {
+  ImportStrategy,
+  ImportSummary,
+  Recipe,
+  RecipeInput,
+  RecipePage,
+  RecipeQuery,
+  RecipeRevision,
+  TagCount,
+  TrashedRecipe,
+} from "@/app/types/recipe";
+import { KitchenSession } from "@/app/types/timer";
+import { recipeQueryString } from "./search";
+import { withinSessionLimits } from "./sessions";
+import { StopwatchGrid } from "./stopwatchSync";
+
+// Typed calls to the recipe and session APIs for the browser. Every function resolves to the response body or
+// throws an ApiError built from the route's structured error.
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly fields: FieldErrors = {},
+    // The stored recipe, when a save was rejected because someone else saved first.
+    readonly current: Recipe | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// What to tell the user: the server's message for problems they can fix, otherwise `fallback`.
+export function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof ApiError && err.status < 500 ? err.message : fallback;
+}
+
+async function request<T>(path: string, init: RequestInit & { json?: unknown } = {}): Promise<T> {
+  const { json, ...rest } = init;
+  const response = await fetch(
+    path,
+    json === undefined
+      ? rest
+      : {
+          ...rest,
+          headers: { "Content-Type": "application/json", ...rest.headers },
+          body: JSON.stringify(json),
+        }
+  );
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error: Partial<ApiErrorBody> = body?.error ?? {};
+    throw new ApiError(
+      response.status,
+      error.code ?? "internal",
+      error.message ?? `Request failed with status ${response.status}`,
+      error.fields,
+      body?.current ?? null
+    );
+  }
+  return body as T;
+}
+
+export const recipeApi = {
+  list: (query: Partial<RecipeQuery> = {}) =>
+    request<RecipePage>(`/api/recipes${recipeQueryString(query)}`),
+
+  get: (id: string) => request<Recipe>(`/api/recipes/${encodeURIComponent(id)}`),
+
+  // Changes whenever any recipe is added, saved or removed; see /api/recipes/changes.
+  changes: () => request<{ stamp: string }>("/api/recipes/changes", { cache: "no-store" }),
+
+  create: (input: RecipeInput) => request<Recipe>("/api/recipes", { method: "POST", json: input }),
+
+  // `version` is the one the edit started from; a newer stored copy rejects the save with a
+  // "conflict" ApiError carrying it.
+  update: (id: string, version: number, input: RecipeInput) =>
+    request<Recipe>("/api/recipes", { method: "PUT", json: { id, version, ...input } }),
+
+  remove: (id: string) =>
+    request<{ success: true }>(`/api/recipes?id=${encodeURIComponent(id)}`, { method: "DELETE" }),
+
+  history: (id: string) =>
+    request<RecipeRevision[]>(`/api/recipes/${encodeURIComponent(id)}/history`),
+
+  restoreRevision: (id: string, revisionId: string, version: number) =>
+    request<Recipe>(`/api/recipes/${encodeURIComponent(id)}/history`, {
+      method: "POST",
+      json: { revisionId, version },
+    }),
+
+  trash: () => request<TrashedRecipe[]>("/api/recipes/trash"),
+
+  restoreFromTrash: (id: string) =>
+    request<Recipe>("/api/recipes/trash", { method: "POST", json: { id } }),
+
+  tags: () => request<TagCount[]>("/api/recipes/tags"),
+
+  favorites: () => request<string[]>("/api/recipes/favorites"),
+
+  setFavorite: (id: string, favorite: boolean) =>
+    request<{ id: string; favorite: boolean }>("/api/recipes/favorites", {
+      method: "PUT",
+      json: { id, favorite },
+    }),
+
+  importBundle: (bundle: unknown, strategy: ImportStrategy, dryRun: boolean) =>
+    request<ImportSummary>("/api/recipes/import", {
+      method: "POST",
+      json: { bundle, strategy, dryRun },
+    }),
+};
+
+// The grid as a session takes it (see withinSessionLimits).
+const sessionGrid = ({ stopwatches, deleted }: StopwatchGrid): StopwatchGrid => ({
+  stopwatches: stopwatches.map(withinSessionLimits),
+  deleted,
+});
+
+export const sessionApi = {
+  create: (grid: StopwatchGrid) =>
+    request<KitchenSession>("/api/sessions", { method: "POST", json: sessionGrid(grid) }),
+
+  get: (code: string) =>
+    request<KitchenSession>(`/api/sessions/${encodeURIComponent(code)}`, { cache: "no-store" }),
+
+  // Merges this device's grid into the session; resolves to the merged session.
+  push: (code: string, grid: StopwatchGrid) =>
+    request<KitchenSession>(`/api/sessions/${encodeURIComponent(code)}`, {
+      method: "PUT",
+      json: sessionGrid(grid),
+    }),
+};
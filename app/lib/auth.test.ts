@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { authenticate } from "./auth";
+
+describe("authenticate", () => {
+  const saved = process.env.AUTH_USERS;
+
+  beforeEach(() => {
+    process.env.AUTH_USERS = "chef:s3cret:admin, line1:hunter2 ,colons:a:b:c,both:x:y:admin";
+  });
+
+  afterEach(() => {
+    process.env.AUTH_USERS = saved;
+  });
+
+  it("reads plain and admin accounts", () => {
+    expect(authenticate("chef", "s3cret")).toEqual({ id: "chef", username: "chef", role: "admin" });
+    expect(authenticate("line1", "hunter2")).toMatchObject({ role: "user" });
+  });
+
+  it("keeps everything after the username's colon in the password", () => {
+    expect(authenticate("colons", "a:b:c")).toMatchObject({ role: "user" });
+    expect(authenticate("colons", "a")).toBeNull();
+    expect(authenticate("both", "x:y")).toMatchObject({ role: "admin" });
+  });
+
+  it("refuses wrong passwords and unknown users", () => {
+    expect(authenticate("chef", "s3cret:admin")).toBeNull();
+    expect(authenticate("nobody", "s3cret")).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { Role, User } from "@/app/types/user";
+
+// Local username/password sign-in with no outside services. Accounts come from AUTH_USERS,
+// a comma-separated list of "username:password" or "username:password:admin"; passwords may
+// contain ":" (so one ending in ":admin" needs a trailing ":admin" of its own). A successful
+// sign-in gets an HMAC-signed session cookie (AUTH_SECRET), so there is no session table.
+
+export const SESSION_COOKIE = "kitchen-session";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type Account = User & { password: string };
+
+// Dev servers bundle each route separately, so a module-level secret would differ between routes.
+const devGlobal = globalThis as typeof globalThis & { __kitchenDevSecret?: string };
+
+function secret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production");
+  }
+  // Dev only: sessions last until the server restarts.
+  devGlobal.__kitchenDevSecret ??= randomBytes(32).toString("hex");
+  return devGlobal.__kitchenDevSecret;
+}
+
+function accounts(): Account[] {
+  return (process.env.AUTH_USERS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      // The username ends at the first ":", and a last ":admin" is the role; the rest is password.
+      const colon = entry.indexOf(":");
+      if (colon === -1) return [];
+      const username = entry.slice(0, colon);
+      const rest = entry.slice(colon + 1);
+      const admin = rest.endsWith(":admin");
+      const password = admin ? rest.slice(0, -":admin".length) : rest;
+      if (!username || !password) return [];
+      const role: Role = admin ? "admin" : "user";
+      return [{ id: username, username, password, role }];
+    });
+}
+
+// Hash both sides first so the comparison takes the same time whatever the lengths.
+function safeEqual(a: string, b: string) {
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+const sign = (payload: string) => createHmac("sha256", secret()).update(payload).digest("base64url");
+
+export function authenticate(username: string, password: string): User | null {
+  const account = accounts().find((a) => a.username === username);
+  // Compare even when the user doesn't exist so timing doesn't reveal valid usernames.
+  const ok = safeEqual(password, account?.password ?? randomBytes(16).toString("hex"));
+  if (!account || !ok) return null;
+  return { id: account.id, username: account.username, role: account.role };
+}
+
+export function setSessionCookie(response: NextResponse, user: User) {
+  const payload = Buffer.from(
+    JSON.stringify({ sub: user.id, exp: Date.now() + SESSION_TTL_MS })
+  ).toString("base64url");
+  response.cookies.set(SESSION_COOKIE, `${payload}.${sign(payload)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+// The signed-in user, or null. The role is looked up from AUTH_USERS on every request, so
+// removing or demoting an account takes effect immediately.
+export function getCurrentUser(request: NextRequest): User | null {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) return null;
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof exp !== "number" || exp < Date.now()) return null;
+    const account = accounts().find((a) => a.id === sub);
+    return account ? { id: account.id, username: account.username, role: account.role } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { ImportStrategy } from "@/app/types/recipe";
+import { User } from "@/app/types/user";
+import { parseBundle, planImport } from "./bundle";
+import { normalizeRecipe } from "./recipes";
+
+const chef: User = { id: "chef", username: "chef", role: "user" };
+const admin: User = { id: "root", username: "root", role: "admin" };
+
+const existing = [
+  normalizeRecipe({ id: "soup", title: "Soup", version: 3, ownerId: "chef", createdAt: 1 }),
+  normalizeRecipe({ id: "stew", title: "Stew", version: 1, ownerId: "someone-else" }),
+];
+
+// A bundle entry as an export would have it; only the fields under test vary.
+const entry = (fields: Record<string, unknown>) => ({ content: "Stir.", ...fields });
+
+const plan = (recipes: Record<string, unknown>[], strategy: ImportStrategy, user = chef) => {
+  const parsed = parseBundle(recipes.map(entry));
+  if ("error" in parsed) throw new Error(parsed.error);
+  return planImport(parsed.entries, existing, strategy, user, 1_000);
+};
+
+describe("parseBundle", () => {
+  it("reports bad recipes one by one instead of failing the file", () => {
+    const toast = entry({ id: "a", title: "Toast" });
+    const result = parseBundle([toast, entry({ id: 7, title: "Jam" }), "nope"]);
+    expect(result).toMatchObject({
+      entries: [
+        { index: 0, recipe: { id: "a", title: "Toast" } },
+        { index: 1, title: "Jam", error: "ID must be a string" },
+        { index: 2, title: "", error: "Not a recipe" },
+      ],
+    });
+  });
+
+  it("refuses files that aren't backups or come from a newer version", () => {
+    expect(parseBundle({ recipes: [] })).toEqual({ error: "Not a recipe backup" });
+    expect(parseBundle({ format: "recipe-bundle", version: 99, recipes: [] })).toMatchObject({
+      error: expect.stringContaining("newer version"),
+    });
+  });
+});
+
+describe("planImport", () => {
+  it("creates unmatched recipes under a new id owned by the importer", () => {
+    const [item] = plan([{ id: "toast", title: "Toast", ownerId: "mallory" }], "skip");
+    expect(item).toMatchObject({ action: "create", duplicateOf: null });
+    expect(item.recipe).toMatchObject({ title: "Toast", version: 1, ownerId: "chef" });
+    expect(item.recipe!.id).not.toBe("toast");
+  });
+
+  it("skips duplicates by id or by title with the skip strategy", () => {
+    const items = plan([{ id: "soup", title: "Other" }, { id: "x", title: "STEW" }], "skip");
+    expect(items.map(({ action, duplicateOf }) => [action, duplicateOf])).toEqual([
+      ["skip", { id: "soup", title: "Soup", matchedBy: "id" }],
+      ["skip", { id: "stew", title: "Stew", matchedBy: "title" }],
+    ]);
+    expect(items.every((item) => item.recipe === null)).toBe(true);
+  });
+
+  it("overwrites a matched recipe in place, keeping its id, owner and creation time", () => {
+    const [item] = plan([{ id: "soup", title: "Better soup", ownerId: "mallory" }], "overwrite");
+    expect(item).toMatchObject({ action: "overwrite", expectedVersion: 3 });
+    expect(item.recipe).toMatchObject({
+      id: "soup",
+      title: "Better soup",
+      version: 4,
+      ownerId: "chef",
+      createdAt: 1,
+      updatedAt: 1_000,
+    });
+  });
+
+  it("only overwrites what the importer may modify, and each recipe once per file", () => {
+    const stew = { id: "stew", title: "Stew" };
+    expect(plan([stew], "overwrite")[0]).toMatchObject({
+      action: "skip",
+      reason: "Only the owner or an admin can overwrite it",
+    });
+    expect(plan([stew, stew], "overwrite", admin).map(({ action, reason }) => [action, reason]))
+      .toEqual([
+        ["overwrite", null],
+        ["skip", "Same as an earlier recipe in this file"],
+      ]);
+  });
+
+  it("renames duplicates to the next free title under a new id", () => {
+    const items = plan(
+      [
+        { id: "soup", title: "Soup" },
+        { id: "soup", title: "Soup" },
+      ],
+      "rename"
+    );
+    expect(items.map(({ action, newTitle }) => [action, newTitle])).toEqual([
+      ["rename", "Soup (2)"],
+      ["rename", "Soup (3)"],
+    ]);
+    const ids = items.map((item) => item.recipe!.id);
+    expect(ids).not.toContain("soup");
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it("matches later entries against recipes created earlier in the same file", () => {
+    const toast = { id: "toast", title: "Toast" };
+    expect(plan([toast, toast], "skip").map(({ action }) => action)).toEqual(["create", "skip"]);
+  });
+});
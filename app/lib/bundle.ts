@@ -0,0 +1,236 @@
+import {
+  ImportAction,
+  ImportItem,
+  ImportStrategy,
+  Recipe,
+  RecipeBundle,
+} from "@/app/types/recipe";
+import { User } from "@/app/types/user";
+import { canModifyRecipe, normalizeRecipe, recipeToText } from "./recipes";
+import { parseRecipeInput } from "./schema";
+import { ZipEntry } from "./zip";
+
+// Backups of the whole collection (GET /api/recipes/export) and loading them back in
+// (POST /api/recipes/import), possibly on another deployment.
+
+export const BUNDLE_FORMAT = "recipe-bundle";
+export const BUNDLE_VERSION = 1;
+export const MAX_IMPORT_RECIPES = 1000;
+export const MAX_BUNDLE_BYTES = 20 * 1024 * 1024;
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ["skip", "overwrite", "rename"];
+
+export function createBundle(recipes: Recipe[], exportedAt = Date.now()): RecipeBundle {
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt, recipes };
+}
+
+type BundleEntry = { index: number } & ({ recipe: Recipe } | { title: string; error: string });
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Checks an uploaded bundle. A bare array of recipes, as stored under the KV `recipes` key, is
+// accepted too. Individual recipes that don't validate come back as errors rather than failing the
+// whole file, so the rest can still be imported.
+export function parseBundle(body: unknown): { entries: BundleEntry[] } | { error: string } {
+  let recipes: unknown;
+  if (Array.isArray(body)) {
+    recipes = body;
+  } else if (isObject(body) && body.format === BUNDLE_FORMAT) {
+    if (typeof body.version !== "number" || body.version > BUNDLE_VERSION) {
+      return { error: "This backup was made by a newer version of the app" };
+    }
+    recipes = body.recipes;
+  } else {
+    return { error: "Not a recipe backup" };
+  }
+
+  if (!Array.isArray(recipes)) return { error: "The backup has no recipe list" };
+  if (recipes.length > MAX_IMPORT_RECIPES) {
+    return { error: `A backup can hold at most ${MAX_IMPORT_RECIPES} recipes` };
+  }
+
+  return {
+    entries: recipes.map((raw, index): BundleEntry => {
+      const title = isObject(raw) && typeof raw.title === "string" ? raw.title.trim() : "";
+      if (!isObject(raw)) return { index, title, error: "Not a recipe" };
+      if (raw.id != null && typeof raw.id !== "string") {
+        return { index, title, error: "ID must be a string" };
+      }
+      const parsed = parseRecipeInput(raw);
+      if ("error" in parsed) return { index, title, error: parsed.error };
+      return { index, recipe: normalizeRecipe({ ...raw, ...parsed.input }) };
+    }),
+  };
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+// "Pancakes" → "Pancakes (2)", or the next number that's free.
+function freeTitle(title: string, taken: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${title} (${n})`;
+    if (!taken.has(titleKey(candidate))) return candidate;
+  }
+}
+
+// One planned write. `expectedVersion` is set for overwrites, which save with compare-and-set.
+export type PlannedImport = ImportItem & { recipe: Recipe | null; expectedVersion: number | null };
+
+// Decides what happens to each recipe in the bundle, without writing anything. A recipe is a
+// duplicate if its id exists, or failing that, a recipe with the same title (ignoring case); later
+// entries also count earlier ones in the same file. Imported recipes belong to the importing user.
+// New recipes always get a new id: the bundle's ids are only for matching, since one taken from a
+// file could clash with a trashed recipe or not be safe as a storage key.
+export function planImport(
+  entries: BundleEntry[],
+  existing: Recipe[],
+  strategy: ImportStrategy,
+  user: User,
+  now = Date.now()
+): PlannedImport[] {
+  const byId = new Map(existing.map((r) => [r.id, r]));
+  const byTitle = new Map(existing.map((r) => [titleKey(r.title), r]));
+  const titles = new Set(byTitle.keys());
+  const written = new Set<string>(); // ids this import creates or overwrites
+
+  const item = (
+    index: number,
+    title: string,
+    action: ImportAction,
+    rest: Partial<PlannedImport> = {}
+  ): PlannedImport => ({
+    index,
+    title,
+    action,
+    duplicateOf: null,
+    newTitle: null,
+    reason: null,
+    recipe: null,
+    expectedVersion: null,
+    ...rest,
+  });
+
+  return entries.map((entry) => {
+    if ("error" in entry) return item(entry.index, entry.title, "invalid", { reason: entry.error });
+
+    const incoming = entry.recipe;
+    const match = byId.get(incoming.id) ?? byTitle.get(titleKey(incoming.title));
+    const fresh = (id: string, title: string): Recipe => ({
+      ...incoming,
+      id,
+      title,
+      version: 1,
+      ownerId: user.id,
+      createdAt: incoming.createdAt || now,
+      updatedAt: now,
+    });
+    const remember = (recipe: Recipe) => {
+      byId.set(recipe.id, recipe);
+      byTitle.set(titleKey(recipe.title), recipe);
+      titles.add(titleKey(recipe.title));
+      written.add(recipe.id);
+    };
+
+    if (!match) {
+      const recipe = fresh(crypto.randomUUID(), incoming.title);
+      remember(recipe);
+      return item(entry.index, incoming.title, "create", { recipe });
+    }
+
+    const duplicateOf = {
+      id: match.id,
+      title: match.title,
+      matchedBy: byId.has(incoming.id) ? ("id" as const) : ("title" as const),
+    };
+
+    if (strategy === "rename") {
+      const newTitle = freeTitle(incoming.title, titles);
+      const recipe = fresh(crypto.randomUUID(), newTitle);
+      remember(recipe);
+      return item(entry.index, incoming.title, "rename", { duplicateOf, newTitle, recipe });
+    }
+
+    if (strategy === "overwrite") {
+      const reason = !canModifyRecipe(user, match)
+        ? "Only the owner or an admin can overwrite it"
+        : written.has(match.id)
+          ? "Same as an earlier recipe in this file"
+          : null;
+      if (reason) return item(entry.index, incoming.title, "skip", { duplicateOf, reason });
+
+      const recipe: Recipe = {
+        ...incoming,
+        id: match.id,
+        version: match.version + 1,
+        ownerId: match.ownerId,
+        createdAt: match.createdAt,
+        updatedAt: now,
+      };
+      remember(recipe);
+      return item(entry.index, incoming.title, "overwrite", {
+        duplicateOf,
+        recipe,
+        expectedVersion: match.version,
+      });
+    }
+
+    return item(entry.index, incoming.title, "skip", { duplicateOf, reason: "Already exists" });
+  });
+}
+
+export function countActions(items: ImportItem[]): Record<ImportAction, number> {
+  const counts = { create: 0, overwrite: 0, rename: 0, skip: 0, invalid: 0 };
+  for (const { action } of items) counts[action]++;
+  return counts;
+}
+
+// ISO 8601, as recipe sites use: 5400000 → "PT1H30M".
+function isoDuration(ms: number): string {
+  const total = Math.round(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `PT${h ? `${h}H` : ""}${m ? `${m}M` : ""}${s || total === 0 ? `${s}S` : ""}`;
+}
+
+// A recipe as a Markdown file with YAML front matter. Values are written as JSON, which YAML reads
+// as-is, so titles with colons or quotes need no special escaping.
+export function recipeToMarkdown(recipe: Recipe): string {
+  const meta: Record<string, unknown> = {
+    id: recipe.id,
+    title: recipe.title,
+    category: recipe.category,
+    tags: recipe.tags,
+    servings: recipe.servings,
+    prepTime: recipe.prepTime != null ? isoDuration(recipe.prepTime) : null,
+    cookTime: recipe.cookTime != null ? isoDuration(recipe.cookTime) : null,
+    owner: recipe.ownerId,
+    created: recipe.createdAt ? new Date(recipe.createdAt).toISOString() : null,
+    updated: recipe.updatedAt ? new Date(recipe.updatedAt).toISOString() : null,
+  };
+  const frontMatter = Object.entries(meta)
+    .filter(([, value]) => value != null && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return ["---", ...frontMatter, "---", "", recipeToText(recipe), ""].join("\n");
+}
+
+const slug = (title: string) =>
+  title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // accents
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "recipe";
+
+// One Markdown file per recipe, plus the JSON bundle so the archive can be imported again.
+export function bundleZipEntries(bundle: RecipeBundle): ZipEntry[] {
+  return [
+    ...bundle.recipes.map((recipe) => ({
+      name: `recipes/${slug(recipe.title)}-${recipe.id.slice(0, 8)}.md`,
+      data: recipeToMarkdown(recipe),
+    })),
+    { name: "recipes.json", data: JSON.stringify(bundle, null, 2) },
+  ];
+}
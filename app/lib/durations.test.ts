@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { findDurations } from "./durations";
+
+const MIN = 60_000;
+const HOUR = 60 * MIN;
+
+// [text, minMs, maxMs] of each duration found.
+const found = (text: string) =>
+  findDurations(text).map(({ text, minMs, maxMs }) => [text, minMs, maxMs]);
+
+describe("findDurations", () => {
+  it("reads plain, ranged and compound durations", () => {
+    expect(found("simmer for 20 minutes")).toEqual([["20 minutes", 20 * MIN, null]]);
+    expect(found("bake 2-3 minutes")).toEqual([["2-3 minutes", 2 * MIN, 3 * MIN]]);
+    expect(found("roast 1 hr 15 min")).toEqual([["1 hr 15 min", HOUR + 15 * MIN, null]]);
+    expect(found("a 45-second blanch")).toEqual([["45-second", 45_000, null]]);
+  });
+
+  it("reads half a or half an unit as half of it", () => {
+    expect(found("simmer for half an hour")).toEqual([["half an hour", HOUR / 2, null]]);
+    expect(found("rest for half a minute")).toEqual([["half a minute", 30_000, null]]);
+    expect(found("a half hour")).toEqual([["half hour", HOUR / 2, null]]);
+  });
+
+  it("adds 'and a half' to the unit before it", () => {
+    expect(found("braise for an hour and a half")).toEqual([
+      ["an hour and a half", 1.5 * HOUR, null],
+    ]);
+    expect(found("boil 2-3 minutes and a half")).toEqual([
+      ["2-3 minutes and a half", 2.5 * MIN, 3.5 * MIN],
+    ]);
+    expect(found("an hour and 30 minutes")).toEqual([["an hour and 30 minutes", 1.5 * HOUR, null]]);
+  });
+
+  it("reads unicode fractions, reporting positions in the original text", () => {
+    const text = "cook for 1½ hours, then ¾ hour more";
+    const matches = findDurations(text);
+    expect(matches.map(({ minMs }) => minMs)).toEqual([1.5 * HOUR, 0.75 * HOUR]);
+    expect(matches.map(({ start, end }) => text.slice(start, end))).toEqual([
+      "1½ hours",
+      "¾ hour",
+    ]);
+    expect(matches[0].text).toBe("1½ hours");
+  });
+
+  it("reads a comma as thousands before three digits and as a decimal point before fewer", () => {
+    expect(found("hold for 1,000 seconds")).toEqual([["1,000 seconds", 1_000_000, null]]);
+    expect(found("1,5 hours")).toEqual([["1,5 hours", 1.5 * HOUR, null]]);
+  });
+
+  it("ignores bare unit letters that aren't glued to a number", () => {
+    expect(found("a m s")).toEqual([]);
+    expect(found("10m")).toEqual([["10m", 10 * MIN, null]]);
+  });
+});
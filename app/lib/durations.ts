@@ -0,0 +1,150 @@
+import { normalizeFractions } from "./ingredients";
+
+// Finds cooking durations in free recipe text: "simmer for 20 minutes", "bake 1 hr 15 min",
+// "2-3 minutes", "a 45-second blanch", "an hour and 30 minutes", "half an hour", "1½ hours",
+// "an hour and a half".
+
+export type DurationMatch = {
+  start: number; // index into the searched text
+  end: number; // exclusive
+  text: string;
+  minMs: number;
+  maxMs: number | null; // upper bound for ranges like "2-3 minutes"
+};
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+  forty: 40, "forty-five": 45, fifty: 50, sixty: 60, ninety: 90, half: 0.5,
+};
+
+const UNIT_MS: [RegExp, number][] = [
+  [/^h/i, 3_600_000],
+  [/^m/i, 60_000],
+  [/^s/i, 1_000],
+];
+
+// A comma is a thousands separator before three digits ("1,000 seconds") and a decimal point
+// before one or two ("1,5 hours"). "half a"/"half an" go first so "half an hour" isn't "an hour".
+const NUM = `(?:${[
+  "\\d+\\s+\\d+/\\d+",
+  "\\d+/\\d+",
+  "\\d{1,3}(?:,\\d{3})+(?!\\d)",
+  "\\d+(?:\\.\\d+|,\\d{1,2}(?!\\d))?",
+  "half\\s+an?\\b",
+  ...Object.keys(WORD_NUMBERS).sort((a, b) => b.length - a.length),
+].join("|")})`;
+const UNIT = "(?:hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)";
+// "an hour and a half", "2 minutes and a half"
+const AND_A_HALF = "\\s+and\\s+a\\s+half\\b";
+const COMPONENT = new RegExp(
+  `\\b(${NUM})(?:\\s*(?:-|–|—|to)\\s*(${NUM}))?\\s*-?\\s*(${UNIT})(?![a-z])(${AND_A_HALF})?`,
+  "gi"
+);
+// What may sit between "1 hr" and "15 min" for them to count as one duration.
+const JOINER = /^\s*(?:,|and|&)?\s*$/i;
+
+function parseNumber(raw: string): number | null {
+  const s = raw.trim().toLowerCase();
+  if (s in WORD_NUMBERS) return WORD_NUMBERS[s];
+  if (/^half\s+an?$/.test(s)) return 0.5;
+  if (/^\d{1,3}(?:,\d{3})+$/.test(s)) return Number(s.replace(/,/g, ""));
+  const mixed = s.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const frac = s.match(/^(\d+)\/(\d+)$/);
+  if (frac) return Number(frac[1]) / Number(frac[2]);
+  const n = Number(s.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+function unitMs(unit: string): number {
+  return UNIT_MS.find(([re]) => re.test(unit))![1];
+}
+
+// normalizeFractions, one run of spaces or non-spaces at a time, along with where each position
+// of the result came from in `text`: a rewritten run maps wholly to its own start and end.
+function normalizeWithPositions(text: string): { normalized: string; origin: number[] } {
+  let normalized = "";
+  const origin: number[] = [];
+  for (const run of text.matchAll(/\s+|\S+/g)) {
+    const start = run.index!;
+    const out = normalizeFractions(run[0]);
+    for (let i = 0; i < out.length; i++) origin.push(out === run[0] ? start + i : start);
+    normalized += out;
+  }
+  origin.push(text.length);
+  return { normalized, origin };
+}
+
+export function findDurations(text: string): DurationMatch[] {
+  const { normalized, origin } = normalizeWithPositions(text);
+  const parts: (DurationMatch & { unit: number })[] = [];
+  for (const m of normalized.matchAll(COMPONENT)) {
+    const half = m[4] ?? "";
+    // Bare "m"/"s"/"h" only count when glued to a digit ("10m"), not "a m"-style noise.
+    const beforeUnit = m[0].slice(0, m[0].length - half.length - m[3].length);
+    if (m[3].length === 1 && !/\d$/.test(beforeUnit.trimEnd())) continue;
+    const extra = half ? 0.5 : 0;
+    const lo = parseNumber(m[1]);
+    const hi = m[2] != null ? parseNumber(m[2]) : null;
+    if (lo == null || lo <= 0) continue;
+    const unit = unitMs(m[3]);
+    parts.push({
+      start: m.index!,
+      end: m.index! + m[0].length,
+      text: m[0],
+      minMs: Math.round((lo + extra) * unit),
+      maxMs: hi != null && hi > lo ? Math.round((hi + extra) * unit) : null,
+      unit,
+    });
+  }
+
+  // Merge "1 hr 15 min" / "1 hour and 30 seconds" into one match when units descend.
+  const merged: (DurationMatch & { unit: number })[] = [];
+  for (const part of parts) {
+    const prev = merged[merged.length - 1];
+    if (prev && prev.unit > part.unit && JOINER.test(normalized.slice(prev.end, part.start))) {
+      const prevMax = prev.maxMs ?? prev.minMs;
+      prev.maxMs = prev.maxMs != null || part.maxMs != null ? prevMax + (part.maxMs ?? part.minMs) : null;
+      prev.minMs += part.minMs;
+      prev.end = part.end;
+      prev.unit = part.unit;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  // Positions and text as they are in `text`, not in its normalised copy.
+  return merged.map(({ start, end, minMs, maxMs }) => ({
+    start: origin[start],
+    end: origin[end],
+    text: text.slice(origin[start], origin[end]),
+    minMs,
+    maxMs,
+  }));
+}
+
+// Short human label for a chip, e.g. "1 hr 15 min" or "45 sec".
+export function describeDuration(ms: number): string {
+  const total = Math.round(ms / 1_000);
+  const h = Math.floor(total / 3_600);
+  const m = Math.floor((total % 3_600) / 60);
+  const s = total % 60;
+  const out: string[] = [];
+  if (h) out.push(`${h} hr`);
+  if (m) out.push(`${m} min`);
+  if (s || out.length === 0) out.push(`${s} sec`);
+  return out.join(" ");
+}
+
+// The sentence of `line` containing [start, end), without list markers, for naming a timer.
+export function stepTextAround(line: string, start: number, end: number, maxLength = 60): string {
+  const before = line.slice(0, start);
+  const sentenceStart = Math.max(before.search(/[^.!?]*$/), 0);
+  const afterEnd = line.slice(end).search(/[.!?](\s|$)/);
+  const sentenceEnd = afterEnd === -1 ? line.length : end + afterEnd;
+  const sentence = line
+    .slice(sentenceStart, sentenceEnd)
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "")
+    .trim();
+  return sentence.length > maxLength ? sentence.slice(0, maxLength - 1).trimEnd() + "…" : sentence;
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApiErrorBody, ApiErrorCode, FieldErrors } from "@/app/types/api";
+
+// Responses for the API routes. Errors always have the same shape, so clients can show the
+// message and highlight fields without knowing which route they called.
+
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  extra: { fields?: FieldErrors } & Record<string, unknown> = {}
+) {
+  const { fields, ...rest } = extra;
+  const error: ApiErrorBody = { code, message, ...(fields && { fields }) };
+  return NextResponse.json({ error, ...rest }, { status });
+}
+
+export const validationError = (message: string, fields: FieldErrors = {}) =>
+  apiError(400, "validation_failed", message, { fields });
+
+// Reads a JSON body without trusting it to be small or well formed. On failure, `response` is
+// the error to send back.
+export async function readJson(
+  request: NextRequest,
+  maxBytes: number
+): Promise<{ body: unknown } | { response: NextResponse }> {
+  const tooLarge = () => ({
+    response: apiError(413, "payload_too_large", `Request body can be at most ${maxBytes} bytes`),
+  });
+
+  if (Number(request.headers.get("content-length") ?? 0) > maxBytes) return tooLarge();
+
+  const text = await request.text();
+  if (Buffer.byteLength(text) > maxBytes) return tooLarge();
+
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { response: apiError(400, "invalid_json", "Request body must be valid JSON") };
+  }
+}
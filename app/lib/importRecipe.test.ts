@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { decodeEntities, htmlToText, importRecipe, parseIsoDuration } from "./importRecipe";
+
+const MIN = 60_000;
+
+const page = (jsonLd: unknown, body = "") =>
+  `<html><head><script type="application/ld+json">${JSON.stringify(jsonLd)}</script></head>` +
+  `<body>${body}</body></html>`;
+
+describe("parseIsoDuration", () => {
+  it("reads hours, minutes, seconds and days", () => {
+    expect(parseIsoDuration("PT1H30M")).toBe(90 * MIN);
+    expect(parseIsoDuration("P0DT0H45M")).toBe(45 * MIN);
+    expect(parseIsoDuration("PT90S")).toBe(90_000);
+    expect(parseIsoDuration("P1D")).toBe(24 * 60 * MIN);
+  });
+
+  it("returns null for empty, zero or unreadable durations", () => {
+    for (const value of ["P", "PT", "PT0M", "1 hour", 30, null]) {
+      expect(parseIsoDuration(value)).toBeNull();
+    }
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps visible text, one line per block, with entities decoded", () => {
+    const html =
+      "<p>Fish &amp; chips<br>for&nbsp;two</p><script>alert(1)</script><!-- x --><li>Salt</li>";
+    expect(htmlToText(html)).toBe("Fish & chips\nfor two\nSalt");
+    expect(decodeEntities("&#189; &#x2013; &bogus;")).toBe("½ – &bogus;");
+  });
+});
+
+describe("importRecipe", () => {
+  it("reads schema.org Recipe JSON-LD, including inside @graph", () => {
+    const html = page({
+      "@graph": [
+        { "@type": "WebPage", name: "Ignored" },
+        {
+          "@type": ["Recipe"],
+          name: "Pancakes",
+          description: "<p>Fluffy.</p>",
+          recipeYield: ["4 servings"],
+          prepTime: "PT10M",
+          totalTime: "PT30M",
+          recipeIngredient: ["1 &frac12; cups flour, sifted", "2 eggs"],
+          recipeInstructions: [
+            { "@type": "HowToSection", name: "Batter", itemListElement: [{ text: "1. Whisk." }] },
+            { "@type": "HowToStep", text: "Fry." },
+          ],
+          keywords: "Brunch, sweet",
+          recipeCategory: "Dessert",
+        },
+      ],
+    });
+    expect(importRecipe(html)).toEqual({
+      source: "json-ld",
+      input: expect.objectContaining({
+        title: "Pancakes",
+        content: "Fluffy.",
+        servings: 4,
+        prepTime: 10 * MIN,
+        cookTime: null,
+        ingredients: [
+          { quantity: "1 1/2", unit: "cups", item: "flour", note: "sifted" },
+          { quantity: "2", unit: "", item: "eggs", note: "" },
+        ],
+        steps: [
+          { text: "**Batter:** Whisk.", duration: null },
+          { text: "Fry.", duration: null },
+        ],
+        tags: ["brunch", "sweet"],
+        category: "desserts",
+      }),
+    });
+  });
+
+  it("falls back to headings in the page text when there's no usable JSON-LD", () => {
+    const html =
+      "<head><title>Leek soup | Example Kitchen</title></head><h1>Leek soup</h1><p>Serves 4</p>" +
+      "<p>A winter favourite.</p><h2>Ingredients</h2><ul><li>2 leeks</li></ul>" +
+      "<h2>Method</h2><ol><li>Step 1: Sweat the leeks.</li></ol><h2>Tips</h2><p>Freezes well.</p>";
+    expect(importRecipe(html)).toEqual({
+      source: "text",
+      input: expect.objectContaining({
+        title: "Leek soup",
+        servings: 4,
+        ingredients: [{ quantity: "2", unit: "", item: "leeks", note: "" }],
+        steps: [{ text: "Sweat the leeks.", duration: null }],
+        content: "A winter favourite.\n## Tips\nFreezes well.",
+      }),
+    });
+  });
+
+  it("returns null when there's nothing that looks like a recipe", () => {
+    expect(importRecipe("")).toBeNull();
+    expect(importRecipe(page({ "@type": "Recipe", name: "Empty" }, "<h1>Empty</h1>"))).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+import { RecipeInput, RecipeStep } from "@/app/types/recipe";
+import { RECIPE_CATEGORIES, cleanTags, emptyRecipeInput } from "./recipes";
+import { parseIngredientLine } from "./ingredients";
+
+// Turns a saved web page (or pasted HTML or plain text) into a recipe draft. Pages with schema.org
+// Recipe JSON-LD, which most recipe sites embed, are read field by field; anything else goes
+// through a heuristic that looks for "Ingredients" and "Method"-style headings in the page text.
+// Nothing is fetched, so it works the same offline.
+
+export type ImportResult = {
+  input: RecipeInput;
+  source: "json-ld" | "text";
+};
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const asArray = (v: unknown): unknown[] => (Array.isArray(v) ? v : v == null ? [] : [v]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  deg: "°",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  times: "×",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const hex = code[1].toLowerCase() === "x";
+      const n = hex ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+const BLOCK_TAG =
+  /<\/?(p|div|li|ul|ol|h[1-6]|tr|section|article|header|footer|blockquote|dt|dd)\b[^>]*>/gi;
+
+// Visible text of an HTML fragment, one line per block element.
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(BLOCK_TAG, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+const clean = (v: unknown) => (typeof v === "string" ? htmlToText(v) : "");
+
+const NUM = /(\d+(?:\.\d+)?)/.source;
+const ISO_DURATION = new RegExp(
+  `^P(?:${NUM}W)?(?:${NUM}D)?(?:T(?:${NUM}H)?(?:${NUM}M)?(?:${NUM}S)?)?$`,
+  "i"
+);
+
+// "PT1H30M", "P0DT0H45M", "PT90S" → ms. Years and months aren't meaningful for cooking.
+export function parseIsoDuration(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const m = value.trim().match(ISO_DURATION);
+  if (!m || m.slice(1).every((part) => part === undefined)) return null;
+  const [weeks, days, hours, minutes, seconds] = m.slice(1).map((part) => Number(part ?? 0));
+  const ms = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return ms > 0 ? Math.round(ms) : null;
+}
+
+// Every JSON-LD object on the page, including those nested in arrays and @graph.
+function jsonLdObjects(html: string): Raw[] {
+  const objects: Raw[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) node.forEach(visit);
+    else if (isObject(node)) {
+      objects.push(node);
+      if (node["@graph"]) visit(node["@graph"]);
+    }
+  };
+  const scripts = html.matchAll(
+    /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi
+  );
+  for (const [, body] of scripts) {
+    try {
+      visit(JSON.parse(body.trim()));
+    } catch {
+      // Malformed blocks are common in the wild; skip them and keep looking.
+    }
+  }
+  return objects;
+}
+
+const isRecipe = (o: Raw) =>
+  asArray(o["@type"]).some((t) => t === "Recipe" || t === "schema:Recipe");
+
+// recipeInstructions may be a string, a list of strings, HowToStep objects, or HowToSections of
+// those. A section's name is put in bold in front of its first step so the grouping isn't lost.
+function instructionSteps(value: unknown): RecipeStep[] {
+  const steps: RecipeStep[] = [];
+  const visit = (node: unknown, section: string) => {
+    if (typeof node === "string") {
+      for (const line of htmlToText(node).split("\n")) {
+        const text = line.replace(/^\d+[.)]\s*/, "").trim();
+        if (text) steps.push({ text: section ? `**${section}:** ${text}` : text, duration: null });
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach((n) => visit(n, section));
+    } else if (isObject(node)) {
+      if (asArray(node["@type"]).includes("HowToSection")) {
+        asArray(node.itemListElement).forEach((n, i) => visit(n, i === 0 ? clean(node.name) : ""));
+      } else {
+        visit(node.text ?? node.name ?? node.itemListElement, section);
+      }
+    }
+  };
+  visit(value, "");
+  return steps;
+}
+
+function servingsFrom(value: unknown): number | null {
+  for (const v of asArray(value)) {
+    const n = typeof v === "number" ? v : Number(String(v).match(/\d+/)?.[0]);
+    if (Number.isFinite(n) && n > 0) return n;
+  }
+  return null;
+}
+
+function fromJsonLd(recipe: Raw): RecipeInput {
+  const input = emptyRecipeInput();
+  input.title = clean(recipe.name) || clean(recipe.headline);
+  input.content = clean(recipe.description);
+  input.servings = servingsFrom(recipe.recipeYield);
+  input.prepTime = parseIsoDuration(recipe.prepTime);
+  input.cookTime = parseIsoDuration(recipe.cookTime);
+  // Some sites only give the total.
+  if (input.prepTime == null && input.cookTime == null) {
+    input.cookTime = parseIsoDuration(recipe.totalTime);
+  }
+  input.ingredients = asArray(recipe.recipeIngredient ?? recipe.ingredients)
+    .map(clean)
+    .filter(Boolean)
+    .map(parseIngredientLine);
+  input.steps = instructionSteps(recipe.recipeInstructions);
+
+  const keywords = asArray(recipe.keywords).flatMap((k) =>
+    typeof k === "string" ? k.split(",") : []
+  );
+  input.tags = cleanTags(keywords);
+  // Only categories we know; "Dessert" counts as "desserts".
+  const names = asArray(recipe.recipeCategory).map((c) => String(c).trim().toLowerCase());
+  input.category =
+    RECIPE_CATEGORIES.find((known) => names.some((c) => c === known || `${c}s` === known)) ?? null;
+  return input;
+}
+
+const INGREDIENTS_HEADING = /^(ingredients?|you(?:'|’)ll need|what you need)\s*:?$/i;
+const METHOD_HEADING =
+  /^(method|instructions?|directions?|preparation|steps?|how to make( it)?)\s*:?$/i;
+const OTHER_HEADING =
+  /^(notes?|tips?|nutrition(al)?( info| information| facts)?|equipment|to serve)\s*:?$/i;
+
+function pageTitle(html: string, lines: string[]): string {
+  const og = html.match(
+    /<meta\b[^>]*property\s*=\s*["']og:title["'][^>]*content\s*=\s*["']([^"']*)["']/i
+  );
+  const h1 = html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1\s*>/i);
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  const found = [og?.[1], h1?.[1], title?.[1]].map((t) => (t ? htmlToText(t) : "")).find(Boolean);
+  if (found) return found.split(/\s+[|–—-]\s+/)[0]; // drop " | Site name"
+  return lines[0] ?? "";
+}
+
+// Fallback for pages without structured data, and for plain text. The page title (or first line)
+// is the title; lines under an ingredients heading are ingredients, lines under a method heading
+// are steps, and whatever else there is goes into the notes.
+function fromText(html: string): RecipeInput {
+  const lines = htmlToText(html).split("\n");
+  const input = emptyRecipeInput();
+  input.title = pageTitle(html, lines);
+
+  const notes: string[] = [];
+  let section: "ingredients" | "method" | "notes" = "notes";
+  for (const line of lines) {
+    if (line === input.title) continue;
+    if (INGREDIENTS_HEADING.test(line)) section = "ingredients";
+    else if (METHOD_HEADING.test(line)) section = "method";
+    else if (OTHER_HEADING.test(line)) {
+      section = "notes";
+      notes.push(`## ${line.replace(/:$/, "")}`);
+    } else if (section === "ingredients") input.ingredients.push(parseIngredientLine(line));
+    else if (section === "method") {
+      const text = line.replace(/^(step\s*)?\d+[.):]?\s+/i, "").trim();
+      if (text) input.steps.push({ text, duration: null });
+    } else {
+      const servings = line.match(/^(serves|servings|makes|yield)\s*:?\s*(\d+)/i);
+      if (servings && input.servings == null) input.servings = Number(servings[2]);
+      else notes.push(line);
+    }
+  }
+  input.content = notes.join("\n");
+  return input;
+}
+
+// Returns null when there's nothing that looks like a recipe.
+export function importRecipe(html: string): ImportResult | null {
+  const recipe = jsonLdObjects(html).find(isRecipe);
+  if (recipe) {
+    const input = fromJsonLd(recipe);
+    if (input.title && (input.ingredients.length || input.steps.length)) {
+      return { input, source: "json-ld" };
+    }
+  }
+
+  const input = fromText(html);
+  if (!input.title || (!input.ingredients.length && !input.steps.length && !input.content.trim())) {
+    return null;
+  }
+  return { input, source: "text" };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { Ingredient } from "@/app/types/recipe";
+import { parseIngredientLine, parseQuantity, scaleIngredient } from "./ingredients";
+
+const ingredient = (quantity: string, unit: string): Ingredient => ({
+  quantity,
+  unit,
+  item: "flour",
+  note: "",
+});
+
+// [quantity, unit] after scaling.
+const scaled = (quantity: string, unit: string, factor: number, system: "metric" | "us" | null) => {
+  const { quantity: q, unit: u } = scaleIngredient(ingredient(quantity, unit), { factor, system });
+  return [q, u];
+};
+
+describe("parseIngredientLine", () => {
+  it("splits a line into quantity, unit, item and note", () => {
+    expect(parseIngredientLine("1 ½ cups plain flour, sifted")).toEqual({
+      quantity: "1 1/2",
+      unit: "cups",
+      item: "plain flour",
+      note: "sifted",
+    });
+    expect(parseIngredientLine("- 2 to 3 cups of milk (warm)")).toEqual({
+      quantity: "2-3",
+      unit: "cups",
+      item: "milk",
+      note: "warm",
+    });
+  });
+});
+
+describe("parseQuantity", () => {
+  it("reads whole numbers, fractions, decimals and ranges", () => {
+    expect(parseQuantity("1½")).toEqual({ min: 1.5, max: null });
+    expect(parseQuantity("2-3")).toEqual({ min: 2, max: 3 });
+    expect(parseQuantity("1,5")).toEqual({ min: 1.5, max: null });
+    expect(parseQuantity("1,000")).toEqual({ min: 1000, max: null });
+    expect(parseQuantity("a pinch")).toBeNull();
+  });
+});
+
+describe("scaleIngredient", () => {
+  it("multiplies amounts and ranges, inflecting the unit for the new amount", () => {
+    expect(scaled("1 1/2", "cups", 2, null)).toEqual(["3", "cups"]);
+    expect(scaled("1 1/2", "cups", 0.5, null)).toEqual(["3/4", "cup"]);
+    expect(scaled("2-3", "tbsp", 2, null)).toEqual(["4-6", "tbsp"]);
+  });
+
+  it("leaves quantities that aren't numbers, and unscaled ones, as written", () => {
+    const pinch = ingredient("a pinch", "");
+    expect(scaleIngredient(pinch, { factor: 3, system: "metric" })).toBe(pinch);
+    const cups = ingredient("3/4", "cups");
+    expect(scaleIngredient(cups, { factor: 1, system: null })).toBe(cups);
+  });
+
+  it("converts between metric and US measures in the unit that reads best", () => {
+    expect(scaled("1", "cup", 1, "metric")).toEqual(["235", "ml"]);
+    expect(scaled("454", "g", 1, "us")).toEqual(["1", "lb"]);
+    expect(scaled("500", "g", 1, "us")).toEqual(["1 1/8", "lb"]);
+    expect(scaled("3", "tsp", 1, "us")).toEqual(["1", "tbsp"]);
+    expect(scaled("1,000", "g", 1, "metric")).toEqual(["1", "kg"]);
+    expect(scaled("1,000", "g", 2, null)).toEqual(["2000", "g"]);
+  });
+
+  it("steps down to a smaller metric unit rather than rounding an amount away", () => {
+    expect(scaled("2", "kg", 0.001, null)).toEqual(["2", "g"]);
+    expect(scaled("1", "l", 0.01, null)).toEqual(["10", "ml"]);
+  });
+});
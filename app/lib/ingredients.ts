@@ -0,0 +1,312 @@
+import { Ingredient } from "@/app/types/recipe";
+
+// Parsing free-text ingredient lines like "1 ½ cups plain flour, sifted" into their parts.
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "½": "1/2",
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "¼": "1/4",
+  "¾": "3/4",
+  "⅕": "1/5",
+  "⅖": "2/5",
+  "⅗": "3/5",
+  "⅘": "4/5",
+  "⅙": "1/6",
+  "⅚": "5/6",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+};
+
+const UNICODE_FRACTION = new RegExp(
+  `(\\d?)\\s*([${Object.keys(UNICODE_FRACTIONS).join("")}])`,
+  "g"
+);
+
+// "1½" → "1 1/2", "½" → "1/2", and the fraction slash "⁄" → "/".
+export function normalizeFractions(text: string): string {
+  return text
+    .replace(/⁄/g, "/")
+    .replace(UNICODE_FRACTION, (_, whole: string, frac: string) =>
+      whole ? `${whole} ${UNICODE_FRACTIONS[frac]}` : UNICODE_FRACTIONS[frac]
+    );
+}
+
+// Singular and plural spellings, matched case-insensitively.
+const UNITS = [
+  "g", "gram", "grams", "kg", "kilogram", "kilograms", "mg",
+  "ml", "millilitre", "millilitres", "milliliter", "milliliters",
+  "l", "litre", "litres", "liter", "liters", "dl", "cl",
+  "tsp", "tsps", "teaspoon", "teaspoons", "tbsp", "tbsps", "tbs", "tablespoon", "tablespoons",
+  "cup", "cups", "fl oz", "oz", "ounce", "ounces", "lb", "lbs", "pound", "pounds",
+  "pint", "pints", "pt", "quart", "quarts", "qt", "gallon", "gallons",
+  "pinch", "pinches", "dash", "dashes", "handful", "handfuls", "bunch", "bunches",
+  "clove", "cloves", "can", "cans", "tin", "tins", "jar", "jars", "packet", "packets",
+  "slice", "slices", "stick", "sticks", "piece", "pieces", "sprig", "sprigs",
+];
+
+// A number, decimal, fraction or mixed number ("1 1/2"), or a range of them ("2-3", "1 to 2").
+const AMOUNT = /((?:\d+\s+)?\d+\/\d+|\d{1,3}(?:,\d{3})+(?!\d)|\d+(?:[.,]\d+)?)/.source;
+const QUANTITY = new RegExp(`^${AMOUNT}(?:\\s*(?:-|–|to)\\s*${AMOUNT})?\\s*`);
+
+// Longest first, so "fl oz" wins over "oz" and "tbsps" over "tbsp".
+const UNIT_ALTERNATIVES = [...UNITS]
+  .sort((a, b) => b.length - a.length)
+  .map((u) => u.replace(" ", "\\s+"))
+  .join("|");
+const UNIT = new RegExp(`^(${UNIT_ALTERNATIVES})\\.?(?=\\s|$)\\s*`, "i");
+
+// Splits one ingredient line. Anything that doesn't look like a quantity or unit stays in the item,
+// and text after the first comma (or in trailing parentheses) becomes the note.
+export function parseIngredientLine(line: string): Ingredient {
+  let rest = normalizeFractions(line).replace(/\s+/g, " ").trim();
+  rest = rest.replace(/^[-*•·]\s*/, ""); // list bullets from pasted text
+
+  let quantity = "";
+  const q = rest.match(QUANTITY);
+  if (q) {
+    quantity = q[2] ? `${q[1]}-${q[2]}` : q[1];
+    rest = rest.slice(q[0].length);
+  }
+
+  let unit = "";
+  const u = quantity ? rest.match(UNIT) : null;
+  if (u) {
+    unit = u[1];
+    rest = rest.slice(u[0].length);
+    rest = rest.replace(/^of\s+/i, ""); // "2 cups of milk"
+  }
+
+  let item = rest;
+  let note = "";
+  const comma = item.indexOf(",");
+  if (comma > 0) {
+    note = item.slice(comma + 1).trim();
+    item = item.slice(0, comma).trim();
+  } else {
+    const paren = item.match(/^(.*?)\s*\(([^)]*)\)$/);
+    if (paren && paren[1]) [, item, note] = paren;
+  }
+
+  return { quantity, unit, item: item || line.trim(), note };
+}
+
+// Scaling and unit conversion for display. Nothing here changes a stored recipe; callers get new
+// Ingredient objects to render.
+
+export type MeasureSystem = "metric" | "us";
+
+export type IngredientScale = {
+  factor: number; // 2 doubles the recipe
+  system: MeasureSystem | null; // convert to this system, or null to keep the units as written
+};
+
+type UnitInfo = {
+  name: string; // how it's displayed after conversion
+  kind: "volume" | "weight";
+  system: MeasureSystem | "both"; // spoons are used everywhere
+  base: number; // in ml or g
+};
+
+const UNIT_INFO: Record<string, UnitInfo> = {
+  mg: { name: "mg", kind: "weight", system: "metric", base: 0.001 },
+  g: { name: "g", kind: "weight", system: "metric", base: 1 },
+  kg: { name: "kg", kind: "weight", system: "metric", base: 1000 },
+  ml: { name: "ml", kind: "volume", system: "metric", base: 1 },
+  cl: { name: "cl", kind: "volume", system: "metric", base: 10 },
+  dl: { name: "dl", kind: "volume", system: "metric", base: 100 },
+  l: { name: "l", kind: "volume", system: "metric", base: 1000 },
+  tsp: { name: "tsp", kind: "volume", system: "both", base: 4.92892 },
+  tbsp: { name: "tbsp", kind: "volume", system: "both", base: 14.78676 },
+  cup: { name: "cup", kind: "volume", system: "us", base: 236.588 },
+  "fl oz": { name: "fl oz", kind: "volume", system: "us", base: 29.5735 },
+  pint: { name: "pint", kind: "volume", system: "us", base: 473.176 },
+  quart: { name: "quart", kind: "volume", system: "us", base: 946.353 },
+  gallon: { name: "gallon", kind: "volume", system: "us", base: 3785.41 },
+  oz: { name: "oz", kind: "weight", system: "us", base: 28.3495 },
+  lb: { name: "lb", kind: "weight", system: "us", base: 453.592 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g", grams: "g", kilogram: "kg", kilograms: "kg",
+  millilitre: "ml", millilitres: "ml", milliliter: "ml", milliliters: "ml",
+  litre: "l", litres: "l", liter: "l", liters: "l",
+  tsps: "tsp", teaspoon: "tsp", teaspoons: "tsp",
+  tbsps: "tbsp", tbs: "tbsp", tablespoon: "tbsp", tablespoons: "tbsp",
+  cups: "cup", ounce: "oz", ounces: "oz", lbs: "lb", pound: "lb", pounds: "lb",
+  pints: "pint", pt: "pint", quarts: "quart", qt: "quart", gallons: "gallon",
+};
+
+// The UNIT_INFO key for a unit as typed, or null for units we can't convert ("pinch", "clove").
+function unitKey(unit: string): string | null {
+  const u = unit.trim().toLowerCase().replace(/\.$/, "").replace(/\s+/g, " ");
+  const key = UNIT_ALIASES[u] ?? u;
+  return key in UNIT_INFO ? key : null;
+}
+
+// A comma followed by exactly three digits separates thousands ("1,000 g"); otherwise it's a
+// decimal comma ("1,5 kg").
+const withDecimalPoint = (text: string) =>
+  /^\d{1,3}(?:,\d{3})+$/.test(text) ? text.replace(/,/g, "") : text.replace(",", ".");
+
+function parseAmount(text: string): number | null {
+  const [whole, frac] = text.includes("/")
+    ? text.includes(" ")
+      ? text.split(/\s+/)
+      : ["0", text]
+    : [withDecimalPoint(text), null];
+  let value = Number(whole);
+  if (frac) {
+    const [num, den] = frac.split("/").map(Number);
+    if (!den) return null;
+    value += num / den;
+  }
+  return Number.isFinite(value) ? value : null;
+}
+
+// "1 1/2" → { min: 1.5, max: null }, "2-3" → { min: 2, max: 3 }. Null for "a pinch" and such.
+export function parseQuantity(text: string): { min: number; max: number | null } | null {
+  const normalized = normalizeFractions(text).replace(/\s+/g, " ").trim();
+  const m = normalized.match(QUANTITY);
+  if (!m || m[0].trim() !== normalized) return null;
+  const min = parseAmount(m[1]);
+  const max = m[2] ? parseAmount(m[2]) : null;
+  return min == null ? null : { min, max };
+}
+
+// The fractions a set of measuring cups and spoons can manage.
+const KITCHEN_FRACTIONS: [number, string][] = [
+  [0, ""],
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [1 / 2, "1/2"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [1, ""],
+];
+
+// 1.49 → "1 1/2", 0.3 → "1/3". Above 10 fractions stop mattering, so whole numbers. Never
+// rounds a positive amount down to nothing.
+function formatFraction(value: number): string {
+  if (value >= 10) return String(Math.round(value));
+  let whole = Math.floor(value);
+  const rest = value - whole;
+  const [fraction, nearest] = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - rest) < Math.abs(best[0] - rest) ? candidate : best
+  );
+  let label = nearest;
+  if (fraction === 1) {
+    whole += 1;
+    label = "";
+  }
+  if (whole === 0 && !label) return "1/8";
+  return whole && label ? `${whole} ${label}` : whole ? String(whole) : label;
+}
+
+// The next smaller metric unit, for amounts too small to show in the one they're in.
+const SMALLER_METRIC: Record<string, string> = { kg: "g", g: "mg", l: "ml", dl: "ml", cl: "ml" };
+
+// The precision a metric amount can be weighed or measured to.
+function metricStep(value: number, key: string): number {
+  return key === "kg" || key === "l"
+    ? 0.05
+    : key === "dl" || key === "cl"
+      ? 0.5
+      : value < 10
+        ? 0.5
+        : value < 100
+          ? 1
+          : value < 1000
+            ? 5
+            : 10;
+}
+
+// Metric amounts to a precision you can weigh or measure: 2.5 g, 37 g, 185 g, 1250 g, 1.25 kg.
+// Anything that would round to nothing keeps one significant figure instead (0.2 mg).
+function formatMetric(value: number, key: string): string {
+  const step = metricStep(value, key);
+  const rounded = Math.round(value / step) * step;
+  if (rounded === 0 && value > 0) return String(Number(value.toPrecision(1)));
+  return String(Number(rounded.toFixed(2)));
+}
+
+function formatAmount(value: number, key: string | null): string {
+  if (key && UNIT_INFO[key].system === "metric") return formatMetric(value, key);
+  return formatFraction(value);
+}
+
+// The unit an amount reads best in within a system, e.g. 45 ml in US measures is 3 tbsp.
+function bestUnit(amount: number, info: UnitInfo, system: MeasureSystem): string {
+  if (info.system === "both" && system === "metric") return info.name === "tsp" ? "tsp" : "tbsp";
+  const base = amount * info.base;
+  if (info.kind === "weight") {
+    if (system === "metric") return base >= 1000 ? "kg" : "g";
+    return base >= UNIT_INFO.lb.base ? "lb" : "oz";
+  }
+  if (system === "metric") return base >= 1000 ? "l" : "ml";
+  // A hair under, so 3 tsp is a tablespoon despite floating point.
+  if (base < UNIT_INFO.tbsp.base - 0.01) return "tsp";
+  if (base < UNIT_INFO.cup.base / 4 - 0.01) return "tbsp";
+  return "cup";
+}
+
+// Units written out as words whose plural just adds an "s".
+const WORD_UNITS = new Set([
+  "cup", "pint", "quart", "gallon", "teaspoon", "tablespoon", "ounce", "pound",
+  "gram", "kilogram", "litre", "liter", "millilitre", "milliliter",
+  "clove", "can", "tin", "jar", "packet", "slice", "stick", "piece", "sprig", "handful",
+]);
+
+// "cups" for 3/4 becomes "cup", "cup" for 2 becomes "cups". Abbreviations stay as they are.
+function inflect(unit: string, amount: number): string {
+  const singular = WORD_UNITS.has(unit.toLowerCase()) ? unit : unit.replace(/s$/i, "");
+  if (!WORD_UNITS.has(singular.toLowerCase())) return unit;
+  return amount > 1 ? `${singular}s` : singular;
+}
+
+// The ingredient with its quantity multiplied and, if asked, converted. Quantities that aren't
+// numbers ("a pinch", "to taste") are left alone.
+export function scaleIngredient(ingredient: Ingredient, scale: IngredientScale): Ingredient {
+  const parsed = parseQuantity(ingredient.quantity);
+  const key = unitKey(ingredient.unit);
+  // Keep the text exactly as written when there's nothing to do.
+  if (!parsed || (scale.factor === 1 && !(key && scale.system))) return ingredient;
+
+  let min = parsed.min * scale.factor;
+  let max = parsed.max != null ? parsed.max * scale.factor : null;
+  let unit = ingredient.unit;
+  let outKey = key;
+
+  if (key && scale.system) {
+    const info = UNIT_INFO[key];
+    outKey = bestUnit(max ?? min, info, scale.system);
+    if (outKey !== key) {
+      const ratio = info.base / UNIT_INFO[outKey].base;
+      min *= ratio;
+      max = max != null ? max * ratio : null;
+    }
+    unit = UNIT_INFO[outKey].name;
+  }
+
+  // Scaled down until it rounds away, e.g. 2 kg × 0.001: say 2 g rather than 0 kg.
+  const roundsAway = (key: string) => min > 0 && Math.round(min / metricStep(min, key)) === 0;
+  while (outKey && SMALLER_METRIC[outKey] && roundsAway(outKey)) {
+    const smaller = SMALLER_METRIC[outKey];
+    const ratio = UNIT_INFO[outKey].base / UNIT_INFO[smaller].base;
+    min *= ratio;
+    max = max != null ? max * ratio : null;
+    outKey = smaller;
+    unit = UNIT_INFO[outKey].name;
+  }
+
+  const amount = (value: number) => formatAmount(value, outKey);
+  const quantity = max != null ? `${amount(min)}-${amount(max)}` : amount(min);
+  // Inflected for the amount as shown ("1.02 cups" reads "1 cup"), or as computed if that text
+  // somehow doesn't read back.
+  const shown = parseQuantity(quantity);
+  const count = shown ? (shown.max ?? shown.min) : (max ?? min);
+  return { ...ingredient, quantity, unit: inflect(unit, count) };
+}
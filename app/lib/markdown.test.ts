@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, safeHref } from "./markdown";
+
+describe("safeHref", () => {
+  it("allows http(s), mailto, relative links and anchors", () => {
+    expect(safeHref("https://example.com/soup")).toBe("https://example.com/soup");
+    expect(safeHref("HTTP://example.com")).toBe("HTTP://example.com");
+    expect(safeHref("mailto:chef@example.com")).toBe("mailto:chef@example.com");
+    expect(safeHref("/recipes/soup")).toBe("/recipes/soup");
+    expect(safeHref("../soup")).toBe("../soup");
+    expect(safeHref("#method")).toBe("#method");
+  });
+
+  it("refuses schemes that can run script, in any case", () => {
+    expect(safeHref("javascript:alert(1)")).toBeNull();
+    expect(safeHref("JavaScript:alert(1)")).toBeNull();
+    expect(safeHref("data:text/html,<script>alert(1)</script>")).toBeNull();
+    expect(safeHref("vbscript:msgbox(1)")).toBeNull();
+  });
+
+  it("refuses schemes hidden behind control characters and spaces", () => {
+    expect(safeHref("\x01javascript:alert(1)")).toBeNull();
+    expect(safeHref(" javascript:alert(1)")).toBeNull();
+    expect(safeHref("java\tscript:alert(1)")).toBeNull();
+    expect(safeHref("java\nscript:alert(1)")).toBeNull();
+    expect(safeHref("\x00javascript:alert(1)")).toBeNull();
+  });
+
+  it("refuses an empty link", () => {
+    expect(safeHref("")).toBeNull();
+    expect(safeHref(" \t")).toBeNull();
+  });
+});
+
+describe("parseInline", () => {
+  it("links safe URLs and keeps only the text of refused ones", () => {
+    expect(parseInline("[ok](https://a.example/x) or [bad](javascript:void)")).toEqual([
+      { type: "link", href: "https://a.example/x", children: [{ type: "text", text: "ok" }] },
+      { type: "text", text: " or bad" },
+    ]);
+  });
+});
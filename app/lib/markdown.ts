@@ -0,0 +1,278 @@
+// A small Markdown parser for recipe notes. It produces a tree that components render as React
+// elements, so there is no HTML string anywhere and raw HTML in the source is just text.
+//
+// Supported: ATX headings, paragraphs (a single newline is a line break, as recipes are usually
+// written line by line), bulleted and numbered lists with nesting, task items ("- [ ]" / "- [x]"),
+// block quotes, fenced code, horizontal rules, and inline **bold**, *italic*, ~~strikethrough~~,
+// `code`, [links](https://…) and bare URLs. Links are limited to http(s), mailto and relative URLs.
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em" | "del"; children: Inline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: "break" };
+
+export type ListItem = {
+  children: Inline[];
+  task: { checked: boolean; index: number } | null; // index counts tasks through the document
+  blocks: Block[]; // nested lists and paragraphs
+};
+
+export type Block =
+  | { type: "heading"; level: number; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+  | { type: "blockquote"; children: Block[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, "    ").length;
+const isBlank = (line: string) => !line.trim();
+
+// Only schemes that can't run script. Relative links and anchors are fine. Control characters and
+// spaces go first: browsers ignore them, so "\x01javascript:" or "java\tscript:" would still run.
+export function safeHref(url: string): string | null {
+  const href = url.replace(/[\u0000-\u0020]/g, "");
+  if (/^(https?:|mailto:)/i.test(href)) return href;
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return null; // javascript:, data:, vbscript:, …
+  return href || null;
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const counter = { tasks: 0 };
+  return parseBlocks(source.replace(/\r\n?/g, "\n").split("\n"), counter);
+}
+
+function parseBlocks(lines: string[], counter: { tasks: number }): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // closing fence, if there is one
+      blocks.push({ type: "code", text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ""));
+      blocks.push({ type: "blockquote", children: parseBlocks(body, counter) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const end = listEnd(lines, i);
+      blocks.push(parseList(lines.slice(i, end), counter));
+      i = end;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block.
+    const body: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) body.push(lines[i++]);
+    if (body.length === 0) body.push(lines[i++]); // never loop without consuming a line
+    blocks.push({ type: "paragraph", children: joinLines(body) });
+  }
+
+  return blocks;
+}
+
+const startsBlock = (line: string) =>
+  [HEADING, RULE, FENCE, QUOTE, LIST_ITEM].some((pattern) => pattern.test(line));
+
+const isOrdered = (marker: string) => /\d/.test(marker);
+
+// A list runs until a blank line followed by something that isn't indented or another item, another
+// block at its own indent, or an item with the other kind of marker (bullets vs numbers).
+function listEnd(lines: string[], start: number): number {
+  const baseIndent = indentOf(lines[start]);
+  const ordered = isOrdered(lines[start].match(LIST_ITEM)![2]);
+  const continues = (line: string) => {
+    if (indentOf(line) > baseIndent + 1) return true;
+    const item = line.match(LIST_ITEM);
+    return item ? isOrdered(item[2]) === ordered : !startsBlock(line);
+  };
+
+  let i = start + 1;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      // After a blank line, only another item or indented content keeps the list going.
+      const next = lines[i + 1] ?? "";
+      const nested = indentOf(next) > baseIndent + 1;
+      if (isBlank(next) || !(nested || (LIST_ITEM.test(next) && continues(next)))) break;
+    } else if (!continues(line)) {
+      break;
+    }
+    i++;
+  }
+  return i;
+}
+
+function parseList(lines: string[], counter: { tasks: number }): Block {
+  const first = lines[0].match(LIST_ITEM)!;
+  const baseIndent = indentOf(lines[0]);
+  const ordered = isOrdered(first[2]);
+  const items: ListItem[] = [];
+  let current: { text: string[]; rest: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    let text = current.text.join("\n");
+    let task: ListItem["task"] = null;
+    const taskMatch = text.match(TASK);
+    if (taskMatch) {
+      task = { checked: taskMatch[1] !== " ", index: counter.tasks++ };
+      text = text.slice(taskMatch[0].length);
+    }
+    items.push({
+      children: joinLines(text.split("\n")),
+      task,
+      blocks: parseBlocks(current.rest, counter),
+    });
+  };
+
+  for (const line of lines) {
+    const item = line.match(LIST_ITEM);
+    if (item && indentOf(line) <= baseIndent + 1) {
+      finish();
+      current = { text: [item[3]], rest: [] };
+    } else if (current && current.rest.length === 0 && !isBlank(line) && !LIST_ITEM.test(line)) {
+      current.text.push(line.trim()); // a wrapped continuation of the item's own text
+    } else if (current) {
+      current.rest.push(line.slice(Math.min(indentOf(line), baseIndent + 2)));
+    }
+  }
+  finish();
+
+  return { type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items };
+}
+
+function joinLines(lines: string[]): Inline[] {
+  const result: Inline[] = [];
+  lines.forEach((line, i) => {
+    if (i > 0) result.push({ type: "break" });
+    result.push(...parseInline(line.trim()));
+  });
+  return result;
+}
+
+// One alternative per inline construct; the first to match at a position wins.
+const INLINE = new RegExp(
+  [
+    /\\([\\`*_{}[\]()#+\-.!~>|])/.source, // 1: escaped character
+    /`([^`]+)`/.source, // 2: code
+    /\*\*(?=\S)(.+?)\*\*/.source, // 3: strong
+    /__(?=\S)(.+?)__/.source, // 4: strong
+    /~~(?=\S)(.+?)~~/.source, // 5: strikethrough
+    /\*(?=[^\s*])(.+?)\*/.source, // 6: emphasis
+    /(?<![\w])_(?=[^\s_])(.+?)_(?![\w])/.source, // 7: emphasis
+    /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/.source, // 8, 9: link
+    /<((?:https?:|mailto:)[^>\s]+)>/.source, // 10: autolink
+    /(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])/.source, // 11: bare URL
+  ].join("|"),
+  "g"
+);
+
+export function parseInline(text: string): Inline[] {
+  const result: Inline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = result[result.length - 1];
+    if (last?.type === "text") last.text += value;
+    else result.push({ type: "text", text: value });
+  };
+
+  let cursor = 0;
+  for (const m of text.matchAll(INLINE)) {
+    pushText(text.slice(cursor, m.index));
+    cursor = m.index! + m[0].length;
+
+    if (m[1] !== undefined) pushText(m[1]);
+    else if (m[2] !== undefined) result.push({ type: "code", text: m[2] });
+    else if (m[3] !== undefined || m[4] !== undefined) {
+      result.push({ type: "strong", children: parseInline(m[3] ?? m[4]) });
+    } else if (m[5] !== undefined) result.push({ type: "del", children: parseInline(m[5]) });
+    else if (m[6] !== undefined || m[7] !== undefined) {
+      result.push({ type: "em", children: parseInline(m[6] ?? m[7]) });
+    } else if (m[8] !== undefined) {
+      const href = safeHref(m[9]);
+      if (href) result.push({ type: "link", href, children: parseInline(m[8]) });
+      else pushText(m[8]);
+    } else {
+      const url = m[10] ?? m[11];
+      const href = safeHref(url);
+      if (href) result.push({ type: "link", href, children: [{ type: "text", text: url }] });
+      else pushText(url);
+    }
+  }
+  pushText(text.slice(cursor));
+  return result;
+}
+
+// The plain text of an inline tree, with line breaks as "\n".
+export function inlineText(nodes: Inline[]): string {
+  return nodes
+    .map((n) => {
+      if (n.type === "text" || n.type === "code") return n.text;
+      return n.type === "break" ? "\n" : inlineText(n.children);
+    })
+    .join("");
+}
+
+// Markdown source as plain lines (headings, rules and fences dropped; list markers, task boxes and
+// inline formatting stripped). Used where notes are read line by line, like cook mode.
+export function markdownToLines(source: string): string[] {
+  const lines: string[] = [];
+  const walk = (blocks: Block[]) => {
+    for (const block of blocks) {
+      if (block.type === "paragraph") {
+        lines.push(...inlineText(block.children).split("\n"));
+      } else if (block.type === "list") {
+        for (const item of block.items) {
+          lines.push(...inlineText(item.children).split("\n"));
+          walk(item.blocks);
+        }
+      } else if (block.type === "blockquote") {
+        walk(block.children);
+      } else if (block.type === "code") {
+        lines.push(...block.text.split("\n"));
+      }
+    }
+  };
+  walk(parseMarkdown(source));
+  return lines.map((l) => l.trim()).filter(Boolean);
+}
@@ -0,0 +1,374 @@
+import { ImportStrategy, Recipe, RecipeInput, RecipeQuery, TagCount } from "@/app/types/recipe";
+import { ApiError, recipeApi } from "./api";
+import { recipeQueryString } from "./search";
+
+// The browser's one copy of the recipe collection, shared by every component on the page so an
+// edit in the manager shows up in the viewer without a reload.
+//
+// Recipes are held once by id; searches hold the ids of the pages they've loaded. Writes go
+// through here: the saved recipe is shown straight away, then whatever is on screen is refetched
+// in the background, since a save can move a recipe in or out of a search or change its order.
+// While anything is watching, the server's change stamp is polled so other kitchens' edits
+// arrive the same way.
+
+export type SearchOptions = Omit<Partial<RecipeQuery>, "cursor">;
+
+export type QuerySnapshot = {
+  recipes: Recipe[];
+  hasMore: boolean;
+  loading: boolean;
+  error: string | null;
+  // False until the first page has arrived.
+  loaded: boolean;
+};
+
+export const POLL_INTERVAL_MS = 15_000;
+
+// Searches nobody is watching are kept for coming back to, oldest dropped first.
+const MAX_IDLE_QUERIES = 20;
+
+const NOT_LOADED: QuerySnapshot = {
+  recipes: [],
+  hasMore: false,
+  loading: true,
+  error: null,
+  loaded: false,
+};
+
+type Query = {
+  options: SearchOptions;
+  ids: string[] | null; // null until the first page arrives
+  nextCursor: string | null;
+  loading: boolean;
+  error: string | null;
+  stale: boolean;
+  watchers: number;
+  // Bumped by every refetch, so a slower earlier one can't overwrite its result.
+  generation: number;
+  snapshot: QuerySnapshot | null;
+};
+
+export function createRecipeCache(api: typeof recipeApi = recipeApi) {
+  // null marks a recipe known to be gone.
+  const recipes = new Map<string, Recipe | null>();
+  const staleRecipes = new Set<string>();
+  const recipeWatchers = new Map<string, number>();
+  const queries = new Map<string, Query>();
+  let tags: TagCount[] | null = null;
+  let tagsStale = false;
+  let tagWatchers = 0;
+
+  const listeners = new Set<() => void>();
+  let watchers = 0;
+  let stamp: string | null = null;
+  let polling = false;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  const emit = () => {
+    for (const query of queries.values()) query.snapshot = null;
+    listeners.forEach((listener) => listener());
+  };
+
+  // Versions only go up, so an older copy arriving late never replaces a newer one.
+  const put = (recipe: Recipe) => {
+    const current = recipes.get(recipe.id);
+    staleRecipes.delete(recipe.id);
+    if (current && current.version > recipe.version) return;
+    recipes.set(recipe.id, recipe);
+  };
+
+  const forget = (id: string) => {
+    recipes.set(id, null);
+    staleRecipes.delete(id);
+    for (const query of queries.values()) {
+      if (query.ids?.includes(id)) query.ids = query.ids.filter((other) => other !== id);
+    }
+  };
+
+  function queryFor(options: SearchOptions): Query {
+    const key = recipeQueryString(options);
+    let query = queries.get(key);
+    if (!query) {
+      query = {
+        options,
+        ids: null,
+        nextCursor: null,
+        loading: false,
+        error: null,
+        stale: false,
+        watchers: 0,
+        generation: 0,
+        snapshot: null,
+      };
+      queries.set(key, query);
+      const idle = [...queries].filter(([, q]) => q.watchers === 0 && q !== query);
+      idle.slice(0, idle.length - MAX_IDLE_QUERIES).forEach(([old]) => queries.delete(old));
+    }
+    return query;
+  }
+
+  // Refetches as many recipes as were already loaded, so infinite scroll keeps its place. The old
+  // results stay on screen until the new ones are in.
+  async function refreshQuery(query: Query) {
+    const generation = ++query.generation;
+    const wanted = Math.max(query.ids?.length ?? 0, 1);
+    query.loading = true;
+    query.stale = false;
+    emit();
+    try {
+      const ids: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await api.list({ ...query.options, cursor });
+        if (generation !== query.generation) return;
+        page.recipes.forEach(put);
+        ids.push(...page.recipes.map((r) => r.id));
+        cursor = page.nextCursor;
+      } while (cursor && ids.length < wanted);
+      query.ids = ids;
+      query.nextCursor = cursor;
+      query.error = null;
+    } catch (err) {
+      if (generation !== query.generation) return;
+      query.error = "Failed to load recipes";
+      console.error(err);
+    }
+    query.loading = false;
+    emit();
+  }
+
+  async function loadMoreOf(query: Query) {
+    if (query.loading || !query.nextCursor) return;
+    const generation = query.generation;
+    query.loading = true;
+    emit();
+    try {
+      const page = await api.list({ ...query.options, cursor: query.nextCursor });
+      if (generation !== query.generation) return;
+      page.recipes.forEach(put);
+      query.ids = [...(query.ids ?? []), ...page.recipes.map((r) => r.id)];
+      query.nextCursor = page.nextCursor;
+      query.error = null;
+    } catch (err) {
+      if (generation !== query.generation) return;
+      query.error = "Failed to load recipes";
+      console.error(err);
+    }
+    query.loading = false;
+    emit();
+  }
+
+  async function refreshRecipe(id: string) {
+    staleRecipes.delete(id);
+    try {
+      put(await api.get(id));
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) forget(id);
+      else console.error(err);
+    }
+    emit();
+  }
+
+  async function refreshTags() {
+    tagsStale = false;
+    try {
+      tags = await api.tags();
+    } catch (err) {
+      console.error(err);
+    }
+    emit();
+  }
+
+  // Marks searches out of date and refetches the ones being watched; the rest are refetched when
+  // they're next watched.
+  function invalidateQueries(matches: (query: Query) => boolean) {
+    for (const query of queries.values()) {
+      if (!matches(query)) continue;
+      query.stale = true;
+      if (query.watchers > 0) refreshQuery(query);
+    }
+  }
+
+  // The same for everything: searches, single recipes and tags.
+  function invalidate() {
+    invalidateQueries(() => true);
+    for (const [id, recipe] of recipes) {
+      if (recipe === null) continue;
+      staleRecipes.add(id);
+      if (recipeWatchers.has(id)) refreshRecipe(id);
+    }
+    tagsStale = true;
+    if (tagWatchers > 0) refreshTags();
+  }
+
+  async function poll() {
+    if (polling || document.visibilityState === "hidden") return;
+    polling = true;
+    try {
+      const latest = (await api.changes()).stamp;
+      if (stamp !== null && latest !== stamp) invalidate();
+      stamp = latest;
+    } catch (err) {
+      console.error(err);
+    } finally {
+      polling = false;
+    }
+  }
+
+  const pollWhenVisible = () => {
+    if (document.visibilityState === "visible") poll();
+  };
+
+  // Polling runs while at least one component is watching something.
+  function watch() {
+    if (watchers++ === 0) {
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      document.addEventListener("visibilitychange", pollWhenVisible);
+    }
+    return () => {
+      if (--watchers > 0) return;
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+      document.removeEventListener("visibilitychange", pollWhenVisible);
+    };
+  }
+
+  // After this browser's own write: show it now, refetch what it may have moved.
+  function settle(recipe: Recipe) {
+    put(recipe);
+    invalidate();
+    emit();
+  }
+
+  // A rejected save still tells us the stored copy; keep it so the page shows it.
+  function keepCurrent(err: unknown): never {
+    if (err instanceof ApiError && err.current) {
+      put(err.current);
+      emit();
+    }
+    throw err;
+  }
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getQuery(options: SearchOptions): QuerySnapshot {
+      const query = queries.get(recipeQueryString(options));
+      if (!query || (query.ids === null && !query.error)) return NOT_LOADED;
+      query.snapshot ??= {
+        recipes: (query.ids ?? []).flatMap((id) => recipes.get(id) ?? []),
+        hasMore: query.nextCursor !== null,
+        loading: query.loading,
+        error: query.error,
+        loaded: query.ids !== null,
+      };
+      return query.snapshot;
+    },
+
+    // undefined while unknown, null once it's known to have been deleted.
+    getRecipe: (id: string): Recipe | null | undefined => recipes.get(id),
+
+    getTags: (): TagCount[] | null => tags,
+
+    // Each watch* keeps its data fresh until the returned function is called.
+    watchQuery(options: SearchOptions) {
+      const query = queryFor(options);
+      query.watchers++;
+      const release = watch();
+      if ((query.ids === null && !query.loading) || query.stale) refreshQuery(query);
+      return () => {
+        query.watchers--;
+        release();
+      };
+    },
+
+    watchRecipe(id: string) {
+      recipeWatchers.set(id, (recipeWatchers.get(id) ?? 0) + 1);
+      const release = watch();
+      if (!recipes.has(id) || staleRecipes.has(id)) refreshRecipe(id);
+      return () => {
+        const count = (recipeWatchers.get(id) ?? 1) - 1;
+        if (count > 0) recipeWatchers.set(id, count);
+        else recipeWatchers.delete(id);
+        release();
+      };
+    },
+
+    watchTags() {
+      tagWatchers++;
+      const release = watch();
+      if (tags === null || tagsStale) refreshTags();
+      return () => {
+        tagWatchers--;
+        release();
+      };
+    },
+
+    loadMore(options: SearchOptions) {
+      const query = queries.get(recipeQueryString(options));
+      if (query) loadMoreOf(query);
+    },
+
+    reload(options: SearchOptions) {
+      const query = queries.get(recipeQueryString(options));
+      if (query) refreshQuery(query);
+    },
+
+    // Favourites belong to the signed-in user, so these results change when the user does.
+    invalidateFavorites() {
+      invalidateQueries((query) => query.options.favorites === true);
+    },
+
+    async create(input: RecipeInput) {
+      const recipe = await api.create(input);
+      settle(recipe);
+      return recipe;
+    },
+
+    async update(id: string, version: number, input: RecipeInput) {
+      const recipe = await api.update(id, version, input).catch(keepCurrent);
+      settle(recipe);
+      return recipe;
+    },
+
+    async remove(id: string) {
+      await api.remove(id);
+      forget(id);
+      invalidate();
+      emit();
+    },
+
+    async restoreRevision(id: string, revisionId: string, version: number) {
+      const recipe = await api.restoreRevision(id, revisionId, version).catch(keepCurrent);
+      settle(recipe);
+      return recipe;
+    },
+
+    async restoreFromTrash(id: string) {
+      const recipe = await api.restoreFromTrash(id);
+      settle(recipe);
+      return recipe;
+    },
+
+    async importBundle(bundle: unknown, strategy: ImportStrategy, dryRun: boolean) {
+      const summary = await api.importBundle(bundle, strategy, dryRun);
+      if (!dryRun) invalidate();
+      return summary;
+    },
+
+    async setFavorite(id: string, favorite: boolean) {
+      await api.setFavorite(id, favorite);
+      invalidateQueries((query) => query.options.favorites === true);
+    },
+  };
+}
+
+export type RecipeCache = ReturnType<typeof createRecipeCache>;
+
+export const recipeCache = createRecipeCache();
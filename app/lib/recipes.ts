@@ -0,0 +1,199 @@
+import {
+  Ingredient,
+  Recipe,
+  RecipeInput,
+  RecipeRevision,
+  RecipeStep,
+  RevisionAction,
+} from "@/app/types/recipe";
+import { PresetTimer, RecipeLink, TimerRequest } from "@/app/types/timer";
+import { User } from "@/app/types/user";
+import { findDurations, stepTextAround } from "./durations";
+import { markdownToLines } from "./markdown";
+import { formatClock } from "./time";
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+
+const positiveOrNull = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v) && v > 0 ? v : null;
+
+export const RECIPE_CATEGORIES = [
+  "breakfast",
+  "starters",
+  "soups",
+  "salads",
+  "mains",
+  "sides",
+  "baking",
+  "desserts",
+  "drinks",
+  "other",
+] as const;
+
+export const categoryLabel = (category: string) =>
+  category.charAt(0).toUpperCase() + category.slice(1);
+
+// Tags are compared case-insensitively, so they're stored lowercase, trimmed and without repeats.
+export function cleanTags(tags: string[]): string[] {
+  return [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+export const emptyRecipeInput = (): RecipeInput => ({
+  title: "",
+  content: "",
+  servings: null,
+  prepTime: null,
+  cookTime: null,
+  ingredients: [],
+  steps: [],
+  timers: [],
+  tags: [],
+  category: null,
+});
+
+export const emptyIngredient = (): Ingredient => ({ quantity: "", unit: "", item: "", note: "" });
+
+export const emptyStep = (): RecipeStep => ({ text: "", duration: null });
+
+export const emptyPresetTimer = (): PresetTimer => ({ name: "", mode: "countdown", duration: null });
+
+// Recipes saved before the structured schema are `{ id, title, content, createdAt, updatedAt }`.
+// Their text stays as the freeform body; the structured fields start out empty.
+export function normalizeRecipe(raw: Raw): Recipe {
+  return {
+    id: str(raw.id),
+    title: str(raw.title),
+    content: str(raw.content),
+    servings: positiveOrNull(raw.servings),
+    prepTime: positiveOrNull(raw.prepTime),
+    cookTime: positiveOrNull(raw.cookTime),
+    ingredients: Array.isArray(raw.ingredients)
+      ? raw.ingredients.filter(isObject).map((i) => ({
+          quantity: str(i.quantity),
+          unit: str(i.unit),
+          item: str(i.item),
+          note: str(i.note),
+        }))
+      : [],
+    steps: Array.isArray(raw.steps)
+      ? raw.steps.filter(isObject).map((s) => ({ text: str(s.text), duration: positiveOrNull(s.duration) }))
+      : [],
+    timers: Array.isArray(raw.timers)
+      ? raw.timers.filter(isObject).map((t) => ({
+          name: str(t.name),
+          mode: t.mode === "stopwatch" ? "stopwatch" : "countdown",
+          duration: positiveOrNull(t.duration),
+        }))
+      : [],
+    tags: Array.isArray(raw.tags) ? cleanTags(raw.tags.filter((t) => typeof t === "string")) : [],
+    category:
+      typeof raw.category === "string" && raw.category.trim() ? raw.category.trim().toLowerCase() : null,
+    // Recipes saved before versioning count as version 1.
+    version: typeof raw.version === "number" && raw.version >= 1 ? raw.version : 1,
+    ownerId: typeof raw.ownerId === "string" && raw.ownerId ? raw.ownerId : null,
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+    updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : 0,
+  };
+}
+
+// Everyone can read recipes; only the owner or an admin can change or delete one.
+export function canModifyRecipe(user: User | null, recipe: Pick<Recipe, "ownerId">): boolean {
+  if (!user) return false;
+  return user.role === "admin" || (recipe.ownerId != null && recipe.ownerId === user.id);
+}
+
+// What a timer started from this recipe remembers of it.
+export const recipeLink = ({ id, title }: Recipe): RecipeLink => ({ id, title });
+
+export function newRevision(
+  recipe: Recipe,
+  action: RevisionAction,
+  authorId: string | null
+): RecipeRevision {
+  return {
+    id: crypto.randomUUID(),
+    recipeId: recipe.id,
+    action,
+    authorId,
+    savedAt: Date.now(),
+    snapshot: recipe,
+  };
+}
+
+// Plain-text rendering of everything a user can edit, one item per line, for diffing revisions.
+export function recipeToText(recipe: Recipe): string {
+  const lines = [`# ${recipe.title}`];
+  const meta = [
+    recipe.servings != null && `Serves ${recipe.servings}`,
+    recipe.prepTime != null && `Prep ${formatClock(recipe.prepTime)}`,
+    recipe.cookTime != null && `Cook ${formatClock(recipe.cookTime)}`,
+  ].filter(Boolean);
+  if (meta.length) lines.push(meta.join(" · "));
+  if (recipe.ingredients.length) {
+    lines.push("", "## Ingredients");
+    for (const ing of recipe.ingredients) {
+      const text = [ing.quantity, ing.unit, ing.item].filter(Boolean).join(" ");
+      lines.push(`- ${text}${ing.note ? `, ${ing.note}` : ""}`);
+    }
+  }
+  if (recipe.steps.length) {
+    lines.push("", "## Steps");
+    recipe.steps.forEach((step, i) => {
+      const timer = step.duration != null ? ` [${formatClock(step.duration)}]` : "";
+      lines.push(`${i + 1}. ${step.text}${timer}`);
+    });
+  }
+  if (recipe.timers.length) {
+    lines.push("", "## Timers");
+    for (const t of recipe.timers) {
+      const length = t.mode === "countdown" && t.duration != null ? formatClock(t.duration) : "stopwatch";
+      lines.push(`- ${t.name || "Timer"}: ${length}`);
+    }
+  }
+  if (recipe.content.trim()) lines.push("", "## Notes", ...recipe.content.split("\n"));
+  return lines.join("\n");
+}
+
+export function toRecipeInput(recipe: Recipe): RecipeInput {
+  const { title, content, servings, prepTime, cookTime, ingredients, steps, timers, tags, category } =
+    recipe;
+  return { title, content, servings, prepTime, cookTime, ingredients, steps, timers, tags, category };
+}
+
+export type CookStep = {
+  text: string;
+  duration: number | null; // ms
+  maxDuration: number | null; // ms, when the duration came from a range in the text
+};
+
+// The steps cook mode walks through. Structured steps win; plain-text recipes fall back to one step
+// per line of the notes, with Markdown headings and formatting left out. Steps without an explicit
+// duration use the first one mentioned in their text.
+export function cookSteps(recipe: Recipe): CookStep[] {
+  const source: RecipeStep[] =
+    recipe.steps.length > 0
+      ? recipe.steps
+      : markdownToLines(recipe.content).map((text) => ({ text, duration: null }));
+
+  return source.map(({ text, duration }) => {
+    if (duration != null) return { text, duration, maxDuration: null };
+    const [found] = findDurations(text);
+    return { text, duration: found?.minMs ?? null, maxDuration: found?.maxMs ?? null };
+  });
+}
+
+// The countdown for cook step `i`, named after the step; null for a step without a duration.
+export function cookStepTimer(recipe: Recipe, step: CookStep, i: number): TimerRequest | null {
+  if (step.duration == null) return null;
+  return {
+    name: stepTextAround(step.text, 0, 0) || `${recipe.title}: step ${i + 1}`,
+    duration: step.duration,
+    maxDuration: step.maxDuration ?? undefined,
+    autoStart: true,
+    recipe: recipeLink(recipe),
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { RECIPE_LIMITS, parseRecipeInput, parseRecipeUpdate } from "./schema";
+
+const recipe = { title: " Soup ", content: "Simmer." };
+
+describe("parseRecipeInput", () => {
+  it("returns the cleaned input, dropping fields the schema doesn't know", () => {
+    const result = parseRecipeInput({ ...recipe, servings: 4, ownerId: "mallory" });
+    expect(result).toMatchObject({ input: { title: "Soup", content: "Simmer.", servings: 4 } });
+    expect("input" in result && "ownerId" in result.input).toBe(false);
+  });
+
+  it("rejects servings that aren't a positive number", () => {
+    for (const servings of [0, -2, "4", Number.NaN]) {
+      expect(parseRecipeInput({ ...recipe, servings })).toEqual({
+        error: "Servings must be a positive number",
+        fields: { servings: "Servings must be a positive number" },
+      });
+    }
+    expect(parseRecipeInput({ ...recipe, servings: RECIPE_LIMITS.servings + 1 })).toMatchObject({
+      fields: { servings: `Servings can be at most ${RECIPE_LIMITS.servings}` },
+    });
+    expect(parseRecipeInput({ ...recipe, servings: null })).toHaveProperty("input");
+  });
+
+  it("reports every problem by field path, with the first as the summary", () => {
+    const result = parseRecipeInput({
+      title: "",
+      ingredients: [{ quantity: "1" }, "salt"],
+      timers: [{ name: "Rest", mode: "countdown" }],
+    });
+    expect(result).toEqual({
+      error: "Title is required",
+      fields: {
+        title: "Title is required",
+        "ingredients[1]": "Ingredients must be a list of objects",
+        "ingredients[0].item": "Every ingredient needs an item",
+        "timers[0].duration": "Countdown timers need a duration",
+        content: "Content or at least one step is required",
+      },
+    });
+  });
+});
+
+describe("parseRecipeUpdate", () => {
+  it("needs an id and a version as well as a valid recipe", () => {
+    expect(parseRecipeUpdate({ ...recipe, servings: 0 })).toMatchObject({
+      error: "ID is required",
+      fields: {
+        id: "ID is required",
+        version: "Version is required",
+        servings: "Servings must be a positive number",
+      },
+    });
+    expect(parseRecipeUpdate({ ...recipe, id: "soup", version: 2 })).toMatchObject({
+      id: "soup",
+      version: 2,
+      input: { title: "Soup" },
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { FieldErrors } from "@/app/types/api";
+import { RecipeInput } from "@/app/types/recipe";
+import { RECIPE_CATEGORIES, cleanTags, normalizeRecipe, toRecipeInput } from "./recipes";
+
+// The recipe payload contract for POST/PUT /api/recipes, shared by the server (which enforces it)
+// and the editor (which checks it before saving so mistakes don't need a round trip).
+
+export const RECIPE_LIMITS = {
+  title: 200,
+  content: 50_000,
+  ingredients: 200,
+  ingredientText: 200, // quantity, unit, item
+  ingredientNote: 500,
+  steps: 200,
+  stepText: 2_000,
+  timers: 50,
+  timerName: 100,
+  tags: 20,
+  tagLength: 30,
+  servings: 1_000,
+  duration: 7 * 24 * 60 * 60 * 1000, // a week, in ms
+};
+
+// Request bodies larger than these are refused before parsing.
+export const MAX_RECIPE_BODY_BYTES = 512 * 1024;
+export const SMALL_BODY_BYTES = 16 * 1024; // ids and flags, e.g. favourites
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export type ParseResult<T> = T | { error: string; fields: FieldErrors };
+
+// Checks a POST/PUT body. Returns the cleaned input, or every problem found keyed by field path,
+// with the first as the summary. Fields the schema doesn't know are dropped, not stored.
+export function parseRecipeInput(body: unknown): ParseResult<{ input: RecipeInput }> {
+  if (!isObject(body)) return { error: "Request body must be a JSON object", fields: {} };
+
+  const fields: FieldErrors = {};
+  const fail = (path: string, message: string) => {
+    fields[path] ??= message;
+  };
+
+  const text = (path: string, value: unknown, max: number, label: string) => {
+    if (value == null) return;
+    if (typeof value !== "string") fail(path, `${label} must be text`);
+    else if (value.length > max) fail(path, `${label} can be at most ${max} characters`);
+  };
+
+  const duration = (path: string, value: unknown, label: string) => {
+    if (value == null) return;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      fail(path, `${label} must be a duration in milliseconds`);
+    } else if (value > RECIPE_LIMITS.duration) {
+      fail(path, `${label} can be at most a week`);
+    }
+  };
+
+  const list = (path: string, value: unknown, max: number, label: string): Raw[] => {
+    if (value == null) return [];
+    if (!Array.isArray(value)) {
+      fail(path, `${label} must be a list`);
+      return [];
+    }
+    if (value.length > max) fail(path, `No more than ${max} ${label.toLowerCase()}`);
+    value.forEach((entry, i) => {
+      if (!isObject(entry)) fail(`${path}[${i}]`, `${label} must be a list of objects`);
+    });
+    return value.filter(isObject);
+  };
+
+  const { title, content, servings, prepTime, cookTime, tags, category = null } = body;
+
+  if (typeof title !== "string" || !title.trim()) fail("title", "Title is required");
+  text("title", title, RECIPE_LIMITS.title, "Title");
+  text("content", content, RECIPE_LIMITS.content, "Content");
+
+  if (
+    servings != null &&
+    (typeof servings !== "number" || !Number.isFinite(servings) || servings <= 0)
+  ) {
+    fail("servings", "Servings must be a positive number");
+  } else if (typeof servings === "number" && servings > RECIPE_LIMITS.servings) {
+    fail("servings", `Servings can be at most ${RECIPE_LIMITS.servings}`);
+  }
+  duration("prepTime", prepTime, "Prep time");
+  duration("cookTime", cookTime, "Cook time");
+
+  list("ingredients", body.ingredients, RECIPE_LIMITS.ingredients, "Ingredients").forEach(
+    (ing, i) => {
+      const path = `ingredients[${i}]`;
+      text(`${path}.quantity`, ing.quantity, RECIPE_LIMITS.ingredientText, "Quantity");
+      text(`${path}.unit`, ing.unit, RECIPE_LIMITS.ingredientText, "Unit");
+      text(`${path}.item`, ing.item, RECIPE_LIMITS.ingredientText, "Item");
+      text(`${path}.note`, ing.note, RECIPE_LIMITS.ingredientNote, "Note");
+      if (typeof ing.item !== "string" || !ing.item.trim()) {
+        fail(`${path}.item`, "Every ingredient needs an item");
+      }
+    }
+  );
+
+  const steps = list("steps", body.steps, RECIPE_LIMITS.steps, "Steps");
+  steps.forEach((step, i) => {
+    if (typeof step.text !== "string" || !step.text.trim()) {
+      fail(`steps[${i}].text`, "Every step needs text");
+    }
+    text(`steps[${i}].text`, step.text, RECIPE_LIMITS.stepText, "Step text");
+    duration(`steps[${i}].duration`, step.duration, "Step duration");
+  });
+
+  list("timers", body.timers, RECIPE_LIMITS.timers, "Timers").forEach((timer, i) => {
+    const path = `timers[${i}]`;
+    if (typeof timer.name !== "string") fail(`${path}.name`, "Timer name must be text");
+    text(`${path}.name`, timer.name, RECIPE_LIMITS.timerName, "Timer name");
+    if (timer.mode !== "stopwatch" && timer.mode !== "countdown") {
+      fail(`${path}.mode`, "Timer mode must be stopwatch or countdown");
+    }
+    duration(`${path}.duration`, timer.duration, "Timer duration");
+    if (timer.mode === "countdown" && !timer.duration) {
+      fail(`${path}.duration`, "Countdown timers need a duration");
+    }
+  });
+
+  if (tags != null && (!Array.isArray(tags) || !tags.every((t) => typeof t === "string"))) {
+    fail("tags", "Tags must be a list of text");
+  } else if (Array.isArray(tags)) {
+    if (cleanTags(tags).length > RECIPE_LIMITS.tags) {
+      fail("tags", `No more than ${RECIPE_LIMITS.tags} tags`);
+    }
+    if (tags.some((t) => t.trim().length > RECIPE_LIMITS.tagLength)) {
+      fail("tags", `Tags can be at most ${RECIPE_LIMITS.tagLength} characters`);
+    }
+  }
+
+  if (
+    category !== null &&
+    !RECIPE_CATEGORIES.includes(category as (typeof RECIPE_CATEGORIES)[number])
+  ) {
+    fail("category", `Category must be one of ${RECIPE_CATEGORIES.join(", ")}`);
+  }
+
+  if (!(typeof content === "string" && content.trim()) && steps.length === 0) {
+    fail("content", "Content or at least one step is required");
+  }
+
+  const paths = Object.keys(fields);
+  if (paths.length) return { error: fields[paths[0]], fields };
+
+  return {
+    input: toRecipeInput(normalizeRecipe({ ...body, title: (title as string).trim() })),
+  };
+}
+
+// A PUT body: the recipe plus the id and the version the client edited.
+export function parseRecipeUpdate(
+  body: unknown
+): ParseResult<{ id: string; version: number; input: RecipeInput }> {
+  if (!isObject(body)) return { error: "Request body must be a JSON object", fields: {} };
+
+  const fields: FieldErrors = {};
+  if (typeof body.id !== "string" || !body.id) fields.id = "ID is required";
+  if (typeof body.version !== "number" || !Number.isInteger(body.version) || body.version < 1) {
+    fields.version = "Version is required";
+  }
+
+  const parsed = parseRecipeInput(body);
+  if ("error" in parsed) Object.assign(fields, parsed.fields);
+
+  const paths = Object.keys(fields);
+  if (paths.length) return { error: fields[paths[0]], fields };
+  if ("error" in parsed) return parsed;
+  return { id: body.id as string, version: body.version as number, input: parsed.input };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { RecipeQuery } from "@/app/types/recipe";
+import { normalizeRecipe } from "./recipes";
+import { defaultRecipeQuery, parseRecipeQuery, recipeQueryString, searchRecipes } from "./search";
+
+const recipes = [
+  normalizeRecipe({ id: "a", title: "Pancakes", tags: ["breakfast"], updatedAt: 3 }),
+  normalizeRecipe({ id: "b", title: "beef stew", content: "Brown the beef.", updatedAt: 1 }),
+  normalizeRecipe({
+    id: "c",
+    title: "Soup",
+    category: "soup",
+    ingredients: [{ quantity: "1", unit: "", item: "leek", note: "sliced" }],
+    updatedAt: 2,
+  }),
+  normalizeRecipe({ id: "d", title: "Pancakes", tags: ["breakfast"], updatedAt: 3 }),
+];
+
+const search = (query: Partial<RecipeQuery>, favoriteIds?: Set<string>) =>
+  searchRecipes(recipes, { ...defaultRecipeQuery(), ...query }, favoriteIds);
+
+const ids = (query: Partial<RecipeQuery>) => search(query).recipes.map((r) => r.id);
+
+describe("parseRecipeQuery", () => {
+  it("fills in defaults, with dates sorting newest first", () => {
+    expect(parseRecipeQuery(new URLSearchParams())).toEqual({ query: defaultRecipeQuery() });
+    expect(parseRecipeQuery(new URLSearchParams("sort=updatedAt"))).toMatchObject({
+      query: { sort: "updatedAt", order: "desc" },
+    });
+  });
+
+  it("refuses unknown sorts, bad limits and cursors it didn't make", () => {
+    for (const params of ["sort=rating", "order=up", "limit=0", "limit=101", "cursor=nope"]) {
+      expect(parseRecipeQuery(new URLSearchParams(params))).toHaveProperty("error");
+    }
+  });
+
+  it("reads back what recipeQueryString writes", () => {
+    const query: RecipeQuery = {
+      ...defaultRecipeQuery(),
+      q: "beef",
+      tag: "dinner",
+      favorites: true,
+      sort: "createdAt",
+      order: "asc",
+      limit: 10,
+    };
+    expect(recipeQueryString(defaultRecipeQuery())).toBe("");
+    const params = new URLSearchParams(recipeQueryString(query));
+    expect(parseRecipeQuery(params)).toEqual({ query });
+  });
+});
+
+describe("searchRecipes", () => {
+  it("matches every term against titles, content, ingredients and notes", () => {
+    expect(ids({ q: "BEEF" })).toEqual(["b"]);
+    expect(ids({ q: "leek sliced" })).toEqual(["c"]);
+    expect(ids({ q: "leek beef" })).toEqual([]);
+  });
+
+  it("filters by tag, category and favourites", () => {
+    expect(ids({ tag: "breakfast" })).toEqual(["a", "d"]);
+    expect(ids({ category: "soup" })).toEqual(["c"]);
+    expect(search({ favorites: true }, new Set(["c"])).recipes.map((r) => r.id)).toEqual(["c"]);
+  });
+
+  it("sorts case-insensitively, breaking ties by id", () => {
+    expect(ids({})).toEqual(["b", "a", "d", "c"]);
+    expect(ids({ sort: "updatedAt", order: "desc" })).toEqual(["d", "a", "c", "b"]);
+  });
+
+  it("pages with a cursor that picks up after the last recipe shown", () => {
+    const first = search({ limit: 2 });
+    expect(first.recipes.map((r) => r.id)).toEqual(["b", "a"]);
+    const second = search({ limit: 2, cursor: first.nextCursor });
+    expect(second.recipes.map((r) => r.id)).toEqual(["d", "c"]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
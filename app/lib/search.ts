@@ -0,0 +1,154 @@
+import { Recipe, RecipePage, RecipeQuery, RecipeSort } from "@/app/types/recipe";
+
+// Search, filtering and cursor pagination for GET /api/recipes. The whole collection is filtered in
+// memory, which is plenty for a household's recipes. recipeQueryString is safe in the browser; the
+// rest runs on the server.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+const SORTS: RecipeSort[] = ["title", "updatedAt", "createdAt"];
+
+// Title reads best A→Z; the dates are most useful newest first.
+const defaultOrder = (sort: RecipeSort) => (sort === "title" ? "asc" : "desc");
+
+export function defaultRecipeQuery(): RecipeQuery {
+  return {
+    q: "",
+    tag: null,
+    category: null,
+    favorites: false,
+    sort: "title",
+    order: "asc",
+    cursor: null,
+    limit: DEFAULT_PAGE_SIZE,
+  };
+}
+
+// Reads GET /api/recipes query parameters. Returns the query, or an error message for a 400 response.
+export function parseRecipeQuery(params: URLSearchParams): { query: RecipeQuery } | { error: string } {
+  const sort = (params.get("sort") || "title") as RecipeSort;
+  if (!SORTS.includes(sort)) return { error: `Sort must be one of ${SORTS.join(", ")}` };
+
+  const order = params.get("order") || defaultOrder(sort);
+  if (order !== "asc" && order !== "desc") return { error: "Order must be asc or desc" };
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `Limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+  }
+
+  const cursor = params.get("cursor") || null;
+  if (cursor && !decodeCursor(cursor)) return { error: "Invalid cursor" };
+
+  return {
+    query: {
+      q: (params.get("q") || "").trim(),
+      tag: params.get("tag")?.trim().toLowerCase() || null,
+      category: params.get("category")?.trim().toLowerCase() || null,
+      favorites: ["1", "true"].includes(params.get("favorites") ?? ""),
+      sort,
+      order,
+      cursor,
+      limit,
+    },
+  };
+}
+
+// The URL search string for a query, leaving out anything at its default.
+export function recipeQueryString(query: Partial<RecipeQuery>): string {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  if (query.tag) params.set("tag", query.tag);
+  if (query.category) params.set("category", query.category);
+  if (query.favorites) params.set("favorites", "1");
+  if (query.sort && query.sort !== "title") params.set("sort", query.sort);
+  if (query.order && query.order !== defaultOrder(query.sort ?? "title")) {
+    params.set("order", query.order);
+  }
+  if (query.cursor) params.set("cursor", query.cursor);
+  if (query.limit && query.limit !== DEFAULT_PAGE_SIZE) params.set("limit", String(query.limit));
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// Everything a search term can match, lowercased.
+function searchableText(recipe: Recipe): string {
+  return [
+    recipe.title,
+    recipe.content,
+    ...recipe.ingredients.map((i) => `${i.item} ${i.note}`),
+    ...recipe.steps.map((s) => s.text),
+  ]
+    .join("\n")
+    .toLowerCase();
+}
+
+const sortKey = (recipe: Recipe, sort: RecipeSort): string | number =>
+  sort === "title" ? recipe.title.toLowerCase() : recipe[sort];
+
+// A cursor is the sort key and id of the last recipe on the page, so pages stay stable while
+// recipes are added or deleted between requests.
+type Cursor = { key: string | number; id: string };
+
+// Orders by the sort key, then id so recipes with equal keys still have a fixed order.
+function compare(a: Cursor, b: Cursor): number {
+  if (a.key !== b.key) return a.key < b.key ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+const position = (recipe: Recipe, sort: RecipeSort): Cursor => ({
+  key: sortKey(recipe, sort),
+  id: recipe.id,
+});
+
+function encodeCursor(recipe: Recipe, sort: RecipeSort): string {
+  return Buffer.from(JSON.stringify(position(recipe, sort))).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const validKey = typeof cursor?.key === "string" || typeof cursor?.key === "number";
+    return validKey && typeof cursor.id === "string" ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Filters, sorts and pages a full recipe list. `favoriteIds` are the signed-in user's favourites,
+// needed when query.favorites is set.
+export function searchRecipes(
+  recipes: Recipe[],
+  query: RecipeQuery,
+  favoriteIds: ReadonlySet<string> = new Set()
+): RecipePage {
+  const terms = query.q.toLowerCase().split(/\s+/).filter(Boolean);
+  const direction = query.order === "asc" ? 1 : -1;
+
+  const matches = recipes
+    .filter((r) => !query.tag || r.tags.includes(query.tag))
+    .filter((r) => !query.category || r.category === query.category)
+    .filter((r) => !query.favorites || favoriteIds.has(r.id))
+    .filter((r) => {
+      if (terms.length === 0) return true;
+      const text = searchableText(r);
+      return terms.every((term) => text.includes(term));
+    })
+    .sort((a, b) => direction * compare(position(a, query.sort), position(b, query.sort)));
+
+  let start = 0;
+  const cursor = query.cursor && decodeCursor(query.cursor);
+  if (cursor) {
+    start = matches.findIndex((r) => direction * compare(position(r, query.sort), cursor) > 0);
+    if (start === -1) start = matches.length;
+  }
+
+  const page = matches.slice(start, start + query.limit);
+  const hasMore = start + query.limit < matches.length;
+  return {
+    recipes: page,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1], query.sort) : null,
+  };
+}
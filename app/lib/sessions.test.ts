@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { SESSION_LIMITS, parseSessionGrid } from "./sessions";
+import { newStopwatch } from "./stopwatch";
+
+describe("parseSessionGrid", () => {
+  it("cuts long names and lap lists down instead of refusing the grid", () => {
+    const long = {
+      ...newStopwatch("x".repeat(SESSION_LIMITS.name + 20), "a"),
+      laps: Array.from({ length: SESSION_LIMITS.laps + 5 }, (_, i) => (i + 1) * 1_000),
+    };
+    const stopwatches = [long, newStopwatch("Rest", "b")];
+    const result = parseSessionGrid({ stopwatches, deleted: {} });
+    if (!("grid" in result)) throw new Error(result.error);
+
+    const [a, b] = result.grid.stopwatches;
+    expect(a.name).toHaveLength(SESSION_LIMITS.name);
+    expect(a.laps).toHaveLength(SESSION_LIMITS.laps);
+    expect(a.laps[0]).toBe(1_000);
+    expect(b.name).toBe("Rest");
+  });
+
+  it("still refuses more stopwatches than a session holds", () => {
+    const stopwatches = Array.from({ length: SESSION_LIMITS.stopwatches + 1 }, (_, i) =>
+      newStopwatch(`Timer ${i}`, `id-${i}`)
+    );
+    expect(parseSessionGrid({ stopwatches })).toMatchObject({
+      fields: { stopwatches: `No more than ${SESSION_LIMITS.stopwatches} stopwatches` },
+    });
+  });
+});
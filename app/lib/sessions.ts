@@ -0,0 +1,113 @@
+import { FieldErrors } from "@/app/types/api";
+import { KitchenSession, Stopwatch } from "@/app/types/timer";
+import { ParseResult } from "./schema";
+import { normalizeStopwatch } from "./stopwatch";
+import { StopwatchGrid, mergeGrids, withoutOldDeletions } from "./stopwatchSync";
+
+// Kitchen sessions: one stopwatch grid shared by several devices through /api/sessions. Devices
+// push their whole grid and the server merges it into the stored one with the same rules tabs use
+// between themselves, so a device that was offline simply pushes when it's back and nothing it did
+// in the meantime is lost.
+
+// No 0/O or 1/I, so a code read off another screen can't be mistyped.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export const SESSION_LIMITS = {
+  stopwatches: 100,
+  name: 100,
+  laps: 1_000,
+};
+
+export const MAX_SESSION_BODY_BYTES = 256 * 1024;
+
+export function newSessionCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+}
+
+// What someone typed, as a code: case, spaces and dashes don't matter. Null if it can't be one.
+export function normalizeSessionCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, "");
+  const valid = code.length === CODE_LENGTH && [...code].every((c) => CODE_ALPHABET.includes(c));
+  return valid ? code : null;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// A stopwatch cut down to what a session stores: its name shortened and only its first laps kept.
+// Devices do this before pushing and the server again on receipt, so one long name or a lap button
+// held down can't get a whole grid refused.
+export function withinSessionLimits(sw: Stopwatch): Stopwatch {
+  if (sw.name.length <= SESSION_LIMITS.name && sw.laps.length <= SESSION_LIMITS.laps) return sw;
+  return {
+    ...sw,
+    name: sw.name.slice(0, SESSION_LIMITS.name),
+    laps: sw.laps.slice(0, SESSION_LIMITS.laps),
+  };
+}
+
+// Checks the grid a device sends with POST or PUT. Stopwatches are cleaned up the same way as
+// ones loaded from localStorage and cut down to the session limits; only too many of them is an
+// error, since that can't be fixed without dropping someone's timer.
+export function parseSessionGrid(body: unknown): ParseResult<{ grid: StopwatchGrid }> {
+  if (!isObject(body)) return { error: "Request body must be a JSON object", fields: {} };
+
+  const fields: FieldErrors = {};
+  const { stopwatches: entries, deleted: tombstones = {} } = body;
+
+  const stopwatches: Stopwatch[] = [];
+  if (!Array.isArray(entries)) {
+    fields.stopwatches = "Stopwatches must be a list";
+  } else if (entries.length > SESSION_LIMITS.stopwatches) {
+    fields.stopwatches = `No more than ${SESSION_LIMITS.stopwatches} stopwatches`;
+  } else {
+    for (const [i, entry] of entries.entries()) {
+      const sw = normalizeStopwatch(entry);
+      if (!sw) fields[`stopwatches[${i}]`] ??= "Every stopwatch needs an id";
+      else stopwatches.push(withinSessionLimits(sw));
+    }
+  }
+
+  const deleted: Record<string, number> = {};
+  if (!isObject(tombstones)) fields.deleted = "Deleted must be an object of times";
+  else {
+    for (const [id, at] of Object.entries(tombstones)) {
+      if (typeof at === "number" && Number.isFinite(at)) deleted[id] = at;
+      else fields.deleted ??= "Deleted must be an object of times";
+    }
+  }
+
+  const paths = Object.keys(fields);
+  if (paths.length) return { error: fields[paths[0]], fields };
+  return { grid: { stopwatches, deleted } };
+}
+
+// A session as read back from storage, with its stopwatches brought up to the current shape.
+export function normalizeSession(raw: KitchenSession): KitchenSession {
+  return {
+    ...raw,
+    stopwatches: (Array.isArray(raw.stopwatches) ? raw.stopwatches : [])
+      .map(normalizeStopwatch)
+      .filter((sw): sw is Stopwatch => sw !== null),
+    deleted: isObject(raw.deleted) ? raw.deleted : {},
+  };
+}
+
+// The stored session with a device's grid merged in, as the next version; or `stored` itself when
+// the device had nothing new, so polling never writes.
+export function mergeIntoSession(
+  stored: KitchenSession,
+  incoming: StopwatchGrid,
+  now: number
+): KitchenSession {
+  const merged = mergeGrids(stored, withoutOldDeletions(incoming, now));
+  if (merged === stored) return stored;
+  return {
+    ...stored,
+    ...withoutOldDeletions(merged, now),
+    version: stored.version + 1,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  Clock,
+  DEFAULT_COUNTDOWN,
+  elapsedAt,
+  formatElapsed,
+  newStopwatch,
+  parseStopwatches,
+  serializeStopwatches,
+  startStopwatch,
+  stopStopwatch,
+} from "./stopwatch";
+
+// A clock that only moves when told to.
+function fakeClock(start = 1_700_000_000_000): Clock & { advance: (ms: number) => void } {
+  let now = start;
+  return Object.assign(() => now, {
+    advance: (ms: number) => {
+      now += ms;
+    },
+  });
+}
+
+describe("elapsedAt", () => {
+  it("counts from the start time, not from ticks", () => {
+    const clock = fakeClock();
+    const sw = startStopwatch(newStopwatch("Proofing", "a"), clock());
+    clock.advance(1_500);
+    expect(elapsedAt(sw, clock())).toBe(1_500);
+  });
+
+  it("catches up after a large clock jump", () => {
+    const clock = fakeClock();
+    let sw = startStopwatch(newStopwatch("Braise", "a"), clock());
+    clock.advance(2_000);
+    sw = stopStopwatch(sw, clock());
+    sw = startStopwatch(sw, clock());
+    // The laptop sleeps for three hours.
+    clock.advance(3 * 3_600_000);
+    expect(elapsedAt(sw, clock())).toBe(3 * 3_600_000 + 2_000);
+    expect(formatElapsed(elapsedAt(sw, clock()))).toBe("03:00:02.00");
+  });
+
+  it("treats a clock that steps backwards as no time passing", () => {
+    const clock = fakeClock();
+    let sw = startStopwatch(newStopwatch("Rest", "a"), clock());
+    clock.advance(5_000);
+    sw = stopStopwatch(sw, clock());
+    sw = startStopwatch(sw, clock());
+    clock.advance(-60_000);
+    expect(elapsedAt(sw, clock())).toBe(5_000);
+    expect(stopStopwatch(sw, clock()).elapsed).toBe(5_000);
+  });
+});
+
+describe("startStopwatch and stopStopwatch", () => {
+  it("handles start, stop and start again within one tick", () => {
+    const clock = fakeClock();
+    const t = clock();
+    const started = startStopwatch(newStopwatch("Sear", "a"), t);
+    const stopped = stopStopwatch(started, t);
+    const restarted = startStopwatch(stopped, t);
+
+    expect(stopped).toMatchObject({ isRunning: false, elapsed: 0, startedAt: null, stoppedAt: t });
+    expect(restarted).toMatchObject({ isRunning: true, elapsed: 0, startedAt: t, runStartedAt: t });
+    expect(elapsedAt(restarted, t)).toBe(0);
+
+    clock.advance(250);
+    expect(elapsedAt(restarted, clock())).toBe(250);
+  });
+
+  it("keeps the run's first start across stops", () => {
+    const clock = fakeClock();
+    const first = clock();
+    let sw = startStopwatch(newStopwatch("Knead", "a"), first);
+    clock.advance(1_000);
+    sw = stopStopwatch(sw, clock());
+    clock.advance(10_000);
+    sw = startStopwatch(sw, clock());
+    expect(sw.runStartedAt).toBe(first);
+    clock.advance(1_000);
+    expect(elapsedAt(sw, clock())).toBe(2_000);
+  });
+
+  it("ignores a second start or stop", () => {
+    const clock = fakeClock();
+    const started = startStopwatch(newStopwatch("Boil", "a"), clock());
+    clock.advance(100);
+    expect(startStopwatch(started, clock())).toBe(started);
+
+    const stopped = stopStopwatch(started, clock());
+    clock.advance(100);
+    expect(stopStopwatch(stopped, clock())).toBe(stopped);
+  });
+});
+
+describe("parseStopwatches", () => {
+  it("reads back what serializeStopwatches wrote", () => {
+    const clock = fakeClock();
+    const running = startStopwatch(newStopwatch("Simmer", "a"), clock());
+    const idle = newStopwatch("Chill", "b");
+    expect(parseStopwatches(serializeStopwatches([running, idle]))).toEqual([running, idle]);
+  });
+
+  it("clamps negative and garbage stored values", () => {
+    const [sw] = parseStopwatches(
+      JSON.stringify([
+        {
+          id: "a",
+          name: 42,
+          mode: "sideways",
+          isRunning: "yes",
+          startedAt: "noon",
+          elapsed: -5_000,
+          duration: -1,
+          maxDuration: 0,
+          snoozedUntil: "later",
+          laps: [1_000, "2s", null, 3_000],
+          recipe: { id: 7 },
+          runStartedAt: null,
+          stoppedAt: {},
+          updatedAt: "now",
+        },
+      ])
+    );
+    expect(sw).toEqual({
+      ...newStopwatch("", "a"),
+      elapsed: 0,
+      duration: DEFAULT_COUNTDOWN,
+      laps: [1_000, 3_000],
+    });
+  });
+
+  it("stops a running stopwatch that has no start time", () => {
+    const [sw] = parseStopwatches(
+      JSON.stringify([{ id: "a", isRunning: true, startedAt: null, elapsed: 4_000 }])
+    );
+    expect(sw).toMatchObject({ isRunning: false, startedAt: null, elapsed: 4_000 });
+    expect(elapsedAt(sw, Number.MAX_SAFE_INTEGER)).toBe(4_000);
+  });
+
+  it("skips entries that aren't stopwatches", () => {
+    const saved = [null, 3, { name: "no id" }, { id: "" }, { id: "a" }];
+    const parsed = parseStopwatches(JSON.stringify(saved));
+    expect(parsed.map((sw) => sw.id)).toEqual(["a"]);
+  });
+
+  it("throws on anything but a list", () => {
+    expect(() => parseStopwatches('{"id":"a"}')).toThrow("aren't a list");
+    expect(() => parseStopwatches("not json")).toThrow();
+  });
+});
+
+describe("formatElapsed", () => {
+  it("shows minutes, seconds and hundredths, with hours when needed", () => {
+    expect(formatElapsed(0)).toBe("00:00.00");
+    expect(formatElapsed(61_239)).toBe("01:01.23");
+    expect(formatElapsed(3_600_000 + 5_000)).toBe("01:00:05.00");
+  });
+
+  it("signs countdown overtime, but not less than a hundredth of it", () => {
+    expect(formatElapsed(-1_500)).toBe("-00:01.50");
+    expect(formatElapsed(-9)).toBe("00:00.00");
+  });
+});
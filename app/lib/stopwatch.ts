@@ -0,0 +1,216 @@
+import { RecipeLink, Stopwatch, TimerMode } from "@/app/types/timer";
+
+// The stopwatch grid's timekeeping, without React or the DOM. Every transition takes the current
+// time as an argument and returns a new stopwatch (or the same one when nothing changes), so the
+// same sequence of calls always gives the same result whatever the real clock is doing.
+//
+// Nothing counts ticks: a running stopwatch only records when it started, and its time is worked
+// out from the clock when asked. A tab that was throttled or a laptop that slept catches up on the
+// next render.
+
+// Where the current time comes from; tests and replays can pass their own.
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+export const DEFAULT_COUNTDOWN = 5 * 60_000;
+export const SNOOZE_MS = 60_000;
+
+export function newStopwatch(name: string, id: string = crypto.randomUUID()): Stopwatch {
+  return {
+    id,
+    name,
+    mode: "stopwatch",
+    isRunning: false,
+    startedAt: null,
+    elapsed: 0,
+    duration: DEFAULT_COUNTDOWN,
+    maxDuration: null,
+    alertAcknowledged: false,
+    snoozedUntil: null,
+    laps: [],
+    recipe: null,
+    runStartedAt: null,
+    stoppedAt: null,
+    updatedAt: 0,
+  };
+}
+
+export function newCountdown(
+  name: string,
+  duration: number,
+  maxDuration: number | null = null,
+  recipe: RecipeLink | null = null
+): Stopwatch {
+  return { ...newStopwatch(name), mode: "countdown", duration, maxDuration, recipe };
+}
+
+// Time run so far. A clock that steps backwards (a corrected system time) counts as no time
+// passing rather than taking time off.
+export function elapsedAt(sw: Stopwatch, now: number): number {
+  if (sw.isRunning && sw.startedAt != null) {
+    return sw.elapsed + Math.max(0, now - sw.startedAt);
+  }
+  return sw.elapsed;
+}
+
+// Countdown remaining time; goes negative once the target has passed (overtime).
+export const remainingAt = (sw: Stopwatch, now: number) => sw.duration - elapsedAt(sw, now);
+
+// What the card shows: time left for a countdown, time run for a stopwatch.
+export const displayAt = (sw: Stopwatch, now: number) =>
+  sw.mode === "countdown" ? remainingAt(sw, now) : elapsedAt(sw, now);
+
+export const isDoneAt = (sw: Stopwatch, now: number) =>
+  sw.mode === "countdown" && remainingAt(sw, now) <= 0;
+
+export const isSnoozedAt = (sw: Stopwatch, now: number) =>
+  sw.snoozedUntil != null && now < sw.snoozedUntil;
+
+export const isRingingAt = (sw: Stopwatch, now: number) =>
+  isDoneAt(sw, now) && !sw.alertAcknowledged && !isSnoozedAt(sw, now);
+
+// Starting a running stopwatch does nothing, so a double click can't restart its run.
+export function startStopwatch(sw: Stopwatch, now: number): Stopwatch {
+  if (sw.isRunning) return sw;
+  return { ...sw, isRunning: true, startedAt: now, runStartedAt: sw.runStartedAt ?? now };
+}
+
+// Stopping a finished countdown counts as dismissing its alert.
+export function stopStopwatch(sw: Stopwatch, now: number): Stopwatch {
+  if (!sw.isRunning || sw.startedAt == null) return sw;
+  return {
+    ...sw,
+    isRunning: false,
+    elapsed: elapsedAt(sw, now),
+    startedAt: null,
+    stoppedAt: now,
+    alertAcknowledged: sw.alertAcknowledged || isDoneAt(sw, now),
+    snoozedUntil: null,
+  };
+}
+
+export function resetStopwatch(sw: Stopwatch): Stopwatch {
+  return {
+    ...sw,
+    elapsed: 0,
+    startedAt: null,
+    isRunning: false,
+    alertAcknowledged: false,
+    snoozedUntil: null,
+    laps: [],
+    runStartedAt: null,
+    stoppedAt: null,
+  };
+}
+
+export function addLap(sw: Stopwatch, now: number): Stopwatch {
+  return sw.isRunning ? { ...sw, laps: [...sw.laps, elapsedAt(sw, now)] } : sw;
+}
+
+export const renameStopwatch = (sw: Stopwatch, name: string): Stopwatch => ({ ...sw, name });
+
+// Elapsed time is kept when switching, so a running count-up can become a countdown mid-flight.
+export const setStopwatchMode = (sw: Stopwatch, mode: TimerMode): Stopwatch => ({ ...sw, mode });
+
+// A new target is a new alert: a countdown that was dismissed can ring again.
+export function setCountdownDuration(sw: Stopwatch, duration: number): Stopwatch {
+  return { ...sw, duration, maxDuration: null, alertAcknowledged: false, snoozedUntil: null };
+}
+
+export function dismissAlert(sw: Stopwatch): Stopwatch {
+  return { ...sw, alertAcknowledged: true, snoozedUntil: null };
+}
+
+export function snoozeAlert(sw: Stopwatch, now: number): Stopwatch {
+  return { ...sw, snoozedUntil: now + SNOOZE_MS };
+}
+
+const isTime = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+export function normalizeRecipeLink(raw: unknown): RecipeLink | null {
+  const link = raw as Partial<Record<keyof RecipeLink, unknown>> | null;
+  return typeof link?.id === "string" && typeof link.title === "string"
+    ? { id: link.id, title: link.title }
+    : null;
+}
+
+// Fills in fields that older saved state predates (countdown mode, alerts, laps) and drops values of
+// the wrong type. Returns null for something that isn't a stopwatch at all.
+export function normalizeStopwatch(raw: unknown): Stopwatch | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const sw = raw as Partial<Record<keyof Stopwatch, unknown>>;
+  if (typeof sw.id !== "string" || !sw.id) return null;
+
+  const startedAt = isTime(sw.startedAt) ? sw.startedAt : null;
+  const isRunning = sw.isRunning === true && startedAt != null;
+  return {
+    id: sw.id,
+    name: typeof sw.name === "string" ? sw.name : "",
+    mode: sw.mode === "countdown" ? "countdown" : "stopwatch",
+    // Running needs a start time to count from; without one it's stopped where it was.
+    isRunning,
+    startedAt: sw.isRunning === true ? startedAt : null,
+    elapsed: isTime(sw.elapsed) && sw.elapsed > 0 ? sw.elapsed : 0,
+    duration: isTime(sw.duration) && sw.duration > 0 ? sw.duration : DEFAULT_COUNTDOWN,
+    maxDuration: isTime(sw.maxDuration) && sw.maxDuration > 0 ? sw.maxDuration : null,
+    alertAcknowledged: sw.alertAcknowledged === true,
+    snoozedUntil: isTime(sw.snoozedUntil) ? sw.snoozedUntil : null,
+    laps: Array.isArray(sw.laps) ? sw.laps.filter(isTime) : [],
+    recipe: normalizeRecipeLink(sw.recipe),
+    // Saved before runs were timed from their first start: the current stretch is the best guess.
+    runStartedAt: isTime(sw.runStartedAt) ? sw.runStartedAt : isRunning ? startedAt : null,
+    stoppedAt: isTime(sw.stoppedAt) ? sw.stoppedAt : null,
+    updatedAt: isTime(sw.updatedAt) ? sw.updatedAt : 0,
+  };
+}
+
+export const serializeStopwatches = (stopwatches: Stopwatch[]): string =>
+  JSON.stringify(stopwatches);
+
+// Reads what serializeStopwatches wrote (or an older version of it). Entries that can't be read
+// are skipped; throws if the text isn't a JSON list.
+export function parseStopwatches(text: string): Stopwatch[] {
+  const data: unknown = JSON.parse(text);
+  if (!Array.isArray(data)) throw new Error("Saved stopwatches aren't a list");
+  return data.map(normalizeStopwatch).filter((sw): sw is Stopwatch => sw !== null);
+}
+
+// "mm:ss.hh", with hours when needed and a minus sign for countdown overtime.
+export function formatElapsed(ms: number): string {
+  const negative = ms < 0;
+  if (negative) ms = -ms;
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1_000);
+  const hundredths = Math.floor((ms % 1_000) / 10);
+  const h = hours > 0 ? String(hours).padStart(2, "0") + ":" : "";
+  const m = String(minutes).padStart(2, "0");
+  const s = String(seconds).padStart(2, "0");
+  const hs = String(hundredths).padStart(2, "0");
+  // Less than a hundredth over still reads 00:00.00, without a stray minus sign.
+  return `${negative && ms >= 10 ? "-" : ""}${h}${m}:${s}.${hs}`;
+}
+
+// Split (time since the previous lap) for each lap.
+export function splits(laps: number[]): number[] {
+  return laps.map((t, i) => t - (i > 0 ? laps[i - 1] : 0));
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function lapsToCsv(sw: Stopwatch, elapsed: number): string {
+  const rows: string[][] = [
+    ["Timer", sw.name],
+    ["Mode", sw.mode],
+    ["Elapsed", formatElapsed(elapsed)],
+  ];
+  if (sw.mode === "countdown") rows.push(["Target", formatElapsed(sw.duration)]);
+  rows.push([], ["Lap", "Split", "Total"]);
+  splits(sw.laps).forEach((split, i) => {
+    rows.push([String(i + 1), formatElapsed(split), formatElapsed(sw.laps[i])]);
+  });
+  return rows.map((r) => r.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { newStopwatch } from "./stopwatch";
+import {
+  KeyValueStorage,
+  QUARANTINE_PREFIX,
+  STORAGE_KEY,
+  loadStopwatches,
+} from "./stopwatchStorage";
+
+// A Map-backed storage; `full` makes every write throw, like localStorage over its quota.
+function memoryStorage(entries: Record<string, string>, full = false) {
+  const items = new Map(Object.entries(entries));
+  const storage: KeyValueStorage = {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      if (full) throw new DOMException("Quota exceeded", "QuotaExceededError");
+      items.set(key, value);
+    },
+  };
+  return { storage, items };
+}
+
+describe("loadStopwatches", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("copies unreadable data aside before the grid starts over", () => {
+    const { storage, items } = memoryStorage({ [STORAGE_KEY]: "{not json" });
+    const result = loadStopwatches(storage, 1_000);
+    expect(result).toEqual({
+      grid: { stopwatches: [], deleted: {} },
+      quarantine: { key: `${QUARANTINE_PREFIX}1000`, reason: "not valid JSON" },
+      canSave: true,
+    });
+    expect(items.get(`${QUARANTINE_PREFIX}1000`)).toBe("{not json");
+  });
+
+  it("doesn't claim a copy or allow saving when the copy fails", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { storage } = memoryStorage({ [STORAGE_KEY]: '{"version":99}' }, true);
+    expect(loadStopwatches(storage, 1_000)).toMatchObject({ quarantine: null, canSave: false });
+  });
+
+  it("loads the readable timers but holds off saving when rejected ones can't be kept", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const stopwatches = [newStopwatch("Rest", "a"), 7];
+    const saved = { version: 3, savedAt: 0, stopwatches, deleted: {} };
+    const { storage } = memoryStorage({ [STORAGE_KEY]: JSON.stringify(saved) }, true);
+    const result = loadStopwatches(storage, 1_000);
+    expect(result.grid?.stopwatches.map((sw) => sw.id)).toEqual(["a"]);
+    expect(result).toMatchObject({ quarantine: null, canSave: false });
+  });
+});
@@ -0,0 +1,146 @@
+import { Stopwatch } from "@/app/types/timer";
+import { normalizeStopwatch } from "./stopwatch";
+import { StopwatchGrid, emptyGrid } from "./stopwatchSync";
+
+// How the stopwatch grid is kept in localStorage. The value is an envelope with a schema version,
+// so a later release can change the shape and still read what an earlier one wrote:
+//
+//   { "version": 3, "savedAt": 1700000000000, "stopwatches": [ ... ], "deleted": { "<id>": ms } }
+//
+// Version 1 was the bare array written before the envelope existed; version 2 had no `deleted`
+// (see stopwatchSync.ts for what it's for). Anything that can't be read is copied to a quarantine
+// key before the grid starts over, so a bug or a newer release's data is never overwritten and lost.
+
+export const STORAGE_KEY = "multi-stopwatches-v1";
+export const QUARANTINE_PREFIX = `${STORAGE_KEY}:quarantine:`;
+export const CURRENT_VERSION = 3;
+
+export type StopwatchEnvelope = StopwatchGrid & {
+  version: typeof CURRENT_VERSION;
+  savedAt: number; // epoch ms
+};
+
+export type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+export type LoadResult = {
+  // null when nothing was saved yet, so the caller can start with its default grid.
+  grid: StopwatchGrid | null;
+  // Set when some or all of the saved data couldn't be read: where a copy was kept, and why.
+  quarantine: { key: string; reason: string } | null;
+  // False when data that couldn't be read couldn't be copied aside either (e.g. storage is full):
+  // saving over it would lose it for good.
+  canSave: boolean;
+};
+
+// migrations[n] turns version n data into version n + 1. To change the schema, bump
+// CURRENT_VERSION and add the step from the previous version here.
+const migrations: Record<number, (data: unknown) => unknown> = {
+  1: (data) => ({ version: 2, savedAt: 0, stopwatches: data }),
+  2: (data) => ({ ...(data as object), version: 3, deleted: {} }),
+};
+
+class UnreadableError extends Error {}
+
+const versionOf = (data: unknown): number =>
+  Array.isArray(data) ? 1 : Number((data as { version?: unknown } | null)?.version);
+
+// Brings any readable saved value up to the current schema. Stopwatch entries are checked later,
+// one at a time.
+function migrate(data: unknown): { entries: unknown[]; deleted: Record<string, number> } {
+  let version = versionOf(data);
+  if (!Number.isInteger(version) || version < 1) throw new UnreadableError("no schema version");
+  if (version > CURRENT_VERSION) {
+    throw new UnreadableError(`saved by a newer version (schema ${version})`);
+  }
+  while (version < CURRENT_VERSION) {
+    data = migrations[version](data);
+    version++;
+  }
+  const { stopwatches, deleted } = data as Partial<Record<keyof StopwatchEnvelope, unknown>>;
+  if (!Array.isArray(stopwatches)) throw new UnreadableError("stopwatches isn't a list");
+  // Tombstones only hold a deletion back; bad ones are dropped rather than failing the load.
+  const tombstones: Record<string, number> = {};
+  if (typeof deleted === "object" && deleted !== null) {
+    for (const [id, at] of Object.entries(deleted)) {
+      if (typeof at === "number" && Number.isFinite(at)) tombstones[id] = at;
+    }
+  }
+  return { entries: stopwatches, deleted: tombstones };
+}
+
+// Splits migrated entries into the stopwatches that could be read and the rest.
+function readEntries(entries: unknown[]): { stopwatches: Stopwatch[]; rejected: unknown[] } {
+  const stopwatches: Stopwatch[] = [];
+  const rejected: unknown[] = [];
+  for (const entry of entries) {
+    const sw = normalizeStopwatch(entry);
+    if (sw) stopwatches.push(sw);
+    else rejected.push(entry);
+  }
+  return { stopwatches, rejected };
+}
+
+// Reads a value another tab just saved. Returns null if it can't be read; that tab's own load
+// will have quarantined it, and ours will when it next loads.
+export function parseSavedGrid(raw: string): StopwatchGrid | null {
+  try {
+    const { entries, deleted } = migrate(JSON.parse(raw));
+    return { stopwatches: readEntries(entries).stopwatches, deleted };
+  } catch {
+    return null;
+  }
+}
+
+// Where the copy was kept, or null if it couldn't be.
+function quarantine(
+  storage: KeyValueStorage,
+  raw: string,
+  reason: string,
+  now: number
+): LoadResult["quarantine"] {
+  const key = `${QUARANTINE_PREFIX}${now}`;
+  try {
+    storage.setItem(key, raw);
+    return { key, reason };
+  } catch (e) {
+    console.error("Failed to quarantine saved stopwatches", e);
+    return null;
+  }
+}
+
+// Reads, migrates and validates the saved grid. Never throws: unreadable data is quarantined and
+// reported, and entries that aren't stopwatches are set aside while the rest load.
+export function loadStopwatches(storage: KeyValueStorage, now = Date.now()): LoadResult {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (raw == null) return { grid: null, quarantine: null, canSave: true };
+
+  let migrated: ReturnType<typeof migrate>;
+  try {
+    migrated = migrate(JSON.parse(raw));
+  } catch (e) {
+    const reason = e instanceof UnreadableError ? e.message : "not valid JSON";
+    const kept = quarantine(storage, raw, reason, now);
+    return { grid: emptyGrid(), quarantine: kept, canSave: kept !== null };
+  }
+
+  const { stopwatches, rejected } = readEntries(migrated.entries);
+  const count = rejected.length;
+  const kept = count
+    ? quarantine(
+        storage,
+        JSON.stringify(rejected),
+        `${count} saved timer${count === 1 ? "" : "s"} couldn't be read`,
+        now
+      )
+    : null;
+  return {
+    grid: { stopwatches, deleted: migrated.deleted },
+    quarantine: kept,
+    canSave: count === 0 || kept !== null,
+  };
+}
+
+export function saveStopwatches(storage: KeyValueStorage, grid: StopwatchGrid, now = Date.now()) {
+  const envelope: StopwatchEnvelope = { version: CURRENT_VERSION, savedAt: now, ...grid };
+  storage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+}
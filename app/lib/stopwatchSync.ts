@@ -0,0 +1,99 @@
+import { Stopwatch } from "@/app/types/timer";
+
+// Keeping the grid the same in every tab of the app on this device. Each tab saves to
+// localStorage, the others hear about it through the `storage` event, and merge what they hear
+// with what they have. The merge only looks at timestamps and contents, never at which tab is
+// doing it, so every tab that has seen the same changes ends up with the same grid.
+
+// The grid as shared between tabs: the stopwatches, plus when each deleted one went so a tab that
+// hasn't caught up can't bring it back.
+export type StopwatchGrid = {
+  stopwatches: Stopwatch[];
+  deleted: Record<string, number>; // id -> epoch ms
+};
+
+// Deletions only need remembering until every open tab has heard about them.
+export const TOMBSTONE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const emptyGrid = (): StopwatchGrid => ({ stopwatches: [], deleted: {} });
+
+// Records a change made in this tab. Stopwatches that are new, or different objects than before,
+// get `now` as their updatedAt; ones that are gone get a tombstone. Both are kept strictly later
+// than the last change they replace, so the local edit wins even within the same millisecond.
+export function commitGrid(prev: StopwatchGrid, next: Stopwatch[], now: number): StopwatchGrid {
+  const same = (sw: Stopwatch, i: number) => sw === prev.stopwatches[i];
+  if (next.length === prev.stopwatches.length && next.every(same)) return prev;
+
+  const before = new Map(prev.stopwatches.map((sw) => [sw.id, sw]));
+  const later = (id: string) => Math.max(now, (before.get(id)?.updatedAt ?? 0) + 1);
+  const stopwatches = next.map((sw) =>
+    before.get(sw.id) === sw ? sw : { ...sw, updatedAt: later(sw.id) }
+  );
+
+  const kept = new Set(next.map((sw) => sw.id));
+  const deleted: Record<string, number> = {};
+  for (const [id, at] of Object.entries(prev.deleted)) {
+    if (at > now - TOMBSTONE_TTL_MS && !kept.has(id)) deleted[id] = at;
+  }
+  for (const id of before.keys()) if (!kept.has(id)) deleted[id] = later(id);
+
+  return { stopwatches, deleted };
+}
+
+// Deletions older than TOMBSTONE_TTL_MS, dropped. Every tab has long since heard about them.
+export function withoutOldDeletions(grid: StopwatchGrid, now: number): StopwatchGrid {
+  const deleted = Object.entries(grid.deleted).filter(([, at]) => at > now - TOMBSTONE_TTL_MS);
+  if (deleted.length === Object.keys(grid.deleted).length) return grid;
+  return { ...grid, deleted: Object.fromEntries(deleted) };
+}
+
+// Takes `next` wholesale in place of what this tab had, e.g. when joining a kitchen session. The
+// stopwatches it doesn't have are deleted rather than just dropped, so the other tabs follow.
+export function adoptGrid(prev: StopwatchGrid, next: StopwatchGrid, now: number): StopwatchGrid {
+  const deleted = { ...next.deleted };
+  const kept = new Set(next.stopwatches.map((sw) => sw.id));
+  for (const sw of prev.stopwatches) {
+    if (!kept.has(sw.id)) deleted[sw.id] = Math.max(now, sw.updatedAt + 1, deleted[sw.id] ?? 0);
+  }
+  return { stopwatches: next.stopwatches, deleted };
+}
+
+// The copy that changed last; on a tie, the one whose JSON sorts last, so every tab picks the same.
+function newer(a: Stopwatch, b: Stopwatch): Stopwatch {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt ? a : b;
+  return JSON.stringify(a) >= JSON.stringify(b) ? a : b;
+}
+
+// Combines another tab's grid with this one's. A stopwatch deleted at or after its last change
+// stays deleted; one changed after it was deleted elsewhere comes back. The other tab's order wins,
+// with stopwatches it hasn't seen yet kept at the end. Returns `local` itself when nothing changes,
+// so an unchanged merge doesn't save and echo back.
+export function mergeGrids(local: StopwatchGrid, remote: StopwatchGrid): StopwatchGrid {
+  const deleted = { ...local.deleted };
+  for (const [id, at] of Object.entries(remote.deleted)) {
+    deleted[id] = Math.max(deleted[id] ?? 0, at);
+  }
+
+  const mine = new Map(local.stopwatches.map((sw) => [sw.id, sw]));
+  const theirs = new Set(remote.stopwatches.map((sw) => sw.id));
+  const stopwatches = [
+    ...remote.stopwatches.map((sw) => (mine.has(sw.id) ? newer(mine.get(sw.id)!, sw) : sw)),
+    ...local.stopwatches.filter((sw) => !theirs.has(sw.id)),
+  ].filter((sw) => !(sw.id in deleted && deleted[sw.id] >= sw.updatedAt));
+
+  const unchanged =
+    stopwatches.length === local.stopwatches.length &&
+    stopwatches.every((sw, i) => sw === local.stopwatches[i]) &&
+    Object.keys(deleted).every((id) => local.deleted[id] === deleted[id]);
+  return unchanged ? local : { stopwatches, deleted };
+}
+
+// Whether `local` has something `remote` lacks: a stopwatch it hasn't got, a newer copy of one, or
+// the deletion of one it still has. Deletions of stopwatches it never had don't count.
+export function aheadOf(local: StopwatchGrid, remote: StopwatchGrid): boolean {
+  const { stopwatches } = mergeGrids(remote, local);
+  return (
+    stopwatches.length !== remote.stopwatches.length ||
+    stopwatches.some((sw, i) => sw !== remote.stopwatches[i])
+  );
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { newRevision, normalizeRecipe } from "@/app/lib/recipes";
+import { createFileStore } from "./file";
+import { MAX_REVISIONS, RecipeStore, TRASH_RETENTION_MS } from "./types";
+
+describe("file store revisions", () => {
+  let root: string;
+  let store: RecipeStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "recipes-"));
+    store = createFileStore(path.join(root, "recipes"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const recipe = normalizeRecipe({ id: "soup", title: "Soup", version: 1 });
+
+  it("keeps only the newest MAX_REVISIONS", async () => {
+    await store.create(recipe);
+    for (let i = 0; i < MAX_REVISIONS + 3; i++) {
+      await store.addRevision({ ...newRevision(recipe, "update", null), savedAt: i });
+    }
+    const revisions = await store.listRevisions(recipe.id);
+    expect(revisions).toHaveLength(MAX_REVISIONS);
+    expect(revisions[0].savedAt).toBe(MAX_REVISIONS + 2);
+  });
+
+  it("drops a recipe's history when its trash entry expires", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await store.create(recipe);
+    await store.addRevision(newRevision(recipe, "create", null));
+    await store.delete(recipe.id, null);
+    await store.addRevision(newRevision(recipe, "delete", null));
+    expect(await store.listRevisions(recipe.id)).toHaveLength(2);
+
+    vi.setSystemTime(Date.now() + TRASH_RETENTION_MS + 1);
+    expect(await store.listTrash()).toEqual([]);
+    expect(await store.listRevisions(recipe.id)).toEqual([]);
+  });
+
+  it("treats ids that can't name a file as not found", async () => {
+    const id = "../soup";
+    expect(await store.get(id)).toBeNull();
+    expect(await store.update({ ...recipe, id }, 1)).toEqual({ status: "not-found" });
+    expect(await store.delete(id, null)).toBeNull();
+    expect(await store.restoreFromTrash(id)).toBeNull();
+    expect(await store.listRevisions(id)).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Recipe, RecipeRevision, TrashedRecipe } from "@/app/types/recipe";
+import { normalizeRecipe } from "@/app/lib/recipes";
+import { KitchenSession } from "@/app/types/timer";
+import { normalizeSession } from "@/app/lib/sessions";
+import { MAX_REVISIONS, RecipeStore, SESSION_TTL_MS, TRASH_RETENTION_MS } from "./types";
+
+// One JSON file per recipe in a directory on local disk, for running without Vercel. Writes land via
+// write-to-temp + rename so a crash never leaves a half-written recipe, and they go through a
+// queue so an update's version check and write can't interleave with another write in this process.
+//
+// Earlier versions kept every recipe in a single "<dir>.json" file; it's split up on first use and
+// renamed to "<dir>.json.migrated".
+//
+// Deleted recipes move to "<dir>-trash/<id>.json"; each recipe's revisions are kept newest first in
+// "<dir>-history/<id>.json", which goes with the trash entry once that expires. Each user's
+// favourite recipe ids are in "<dir>-favorites/<hex user id>.json" (hex because user ids are
+// usernames, which may hold characters that aren't safe in file names). Kitchen sessions are
+// "<dir>-sessions/<code>.json".
+export function createFileStore(dir: string): RecipeStore {
+  const trashDir = `${dir}-trash`;
+  const historyDir = `${dir}-history`;
+  const favoritesDir = `${dir}-favorites`;
+  const sessionsDir = `${dir}-sessions`;
+  const favoritesFile = (userId: string) =>
+    path.join(favoritesDir, `${Buffer.from(userId).toString("hex")}.json`);
+  let queue: Promise<unknown> = Promise.resolve();
+  let ready: Promise<void> | null = null;
+
+  // Ids are UUIDs; anything else must not be able to escape the directory. Reads treat such an id
+  // as not found, since nothing can have been stored under it; writes refuse it.
+  const isSafeId = (id: string) => /^[\w-]+$/.test(id);
+
+  const fileFor = (id: string, base = dir) => {
+    if (!isSafeId(id)) throw new Error(`Invalid recipe id "${id}"`);
+    return path.join(base, `${id}.json`);
+  };
+
+  const readJson = async <T>(file: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw e;
+    }
+  };
+
+  const read = async (file: string): Promise<Recipe | null> => {
+    const raw = await readJson<Record<string, unknown>>(file);
+    return raw ? normalizeRecipe(raw) : null;
+  };
+
+  const writeJson = async (file: string, value: unknown) => {
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+    await fs.rename(tmp, file);
+  };
+
+  const readRecipe = (id: string) => (isSafeId(id) ? read(fileFor(id)) : Promise.resolve(null));
+
+  const write = (recipe: Recipe) => writeJson(fileFor(recipe.id), recipe);
+
+  const readTrash = async (id: string): Promise<TrashedRecipe | null> => {
+    if (!isSafeId(id)) return null;
+    const file = fileFor(id, trashDir);
+    const entry = await readJson<TrashedRecipe>(file);
+    if (!entry) return null;
+    if (entry.deletedAt < Date.now() - TRASH_RETENTION_MS) {
+      await fs.rm(file, { force: true });
+      await fs.rm(fileFor(id, historyDir), { force: true });
+      return null;
+    }
+    return { ...entry, recipe: normalizeRecipe(entry.recipe as unknown as Record<string, unknown>) };
+  };
+
+  const readSession = async (code: string): Promise<KitchenSession | null> => {
+    if (!isSafeId(code)) return null;
+    const file = fileFor(code, sessionsDir);
+    const session = await readJson<KitchenSession>(file);
+    if (!session) return null;
+    if (session.updatedAt < Date.now() - SESSION_TTL_MS) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+    return normalizeSession(session);
+  };
+
+  const migrateLegacy = async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.mkdir(trashDir, { recursive: true });
+    await fs.mkdir(historyDir, { recursive: true });
+    await fs.mkdir(favoritesDir, { recursive: true });
+    await fs.mkdir(sessionsDir, { recursive: true });
+    const legacyFile = `${dir}.json`;
+    let legacy: Record<string, unknown>[];
+    try {
+      legacy = JSON.parse(await fs.readFile(legacyFile, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw e;
+    }
+    for (const raw of legacy) {
+      const recipe = normalizeRecipe(raw);
+      if (recipe.id && !(await read(fileFor(recipe.id)))) await write(recipe);
+    }
+    await fs.rename(legacyFile, `${legacyFile}.migrated`);
+  };
+
+  const ensureReady = () => {
+    if (!ready) {
+      ready = migrateLegacy().catch((e) => {
+        ready = null;
+        throw e;
+      });
+    }
+    return ready;
+  };
+
+  const serialized = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(async () => {
+      await ensureReady();
+      return fn();
+    });
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  return {
+    async list() {
+      await ensureReady();
+      const files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json"));
+      const recipes = await Promise.all(files.map((f) => read(path.join(dir, f))));
+      return recipes
+        .filter((r): r is Recipe => r !== null)
+        .sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async get(id) {
+      await ensureReady();
+      return readRecipe(id);
+    },
+    create(recipe) {
+      return serialized(async () => {
+        await write(recipe);
+        return recipe;
+      });
+    },
+    update(recipe, expectedVersion) {
+      return serialized(async () => {
+        const current = await readRecipe(recipe.id);
+        if (!current) return { status: "not-found" as const };
+        if (current.version !== expectedVersion) return { status: "conflict" as const, current };
+        await write(recipe);
+        return { status: "updated" as const, recipe };
+      });
+    },
+    delete(id, deletedBy) {
+      return serialized(async () => {
+        const recipe = await readRecipe(id);
+        if (!recipe) return null;
+        const entry: TrashedRecipe = { recipe, deletedAt: Date.now(), deletedBy };
+        await writeJson(fileFor(id, trashDir), entry);
+        await fs.unlink(fileFor(id));
+        return entry;
+      });
+    },
+    async listTrash() {
+      await ensureReady();
+      const files = (await fs.readdir(trashDir)).filter((f) => f.endsWith(".json"));
+      const entries = await Promise.all(files.map((f) => readTrash(path.basename(f, ".json"))));
+      return entries
+        .filter((e): e is TrashedRecipe => e !== null)
+        .sort((a, b) => b.deletedAt - a.deletedAt);
+    },
+    restoreFromTrash(id) {
+      return serialized(async () => {
+        const entry = await readTrash(id);
+        if (!entry || (await readRecipe(id))) return null;
+        await write(entry.recipe);
+        await fs.unlink(fileFor(id, trashDir));
+        return entry.recipe;
+      });
+    },
+    addRevision(revision) {
+      return serialized(async () => {
+        const file = fileFor(revision.recipeId, historyDir);
+        const revisions = (await readJson<RecipeRevision[]>(file)) ?? [];
+        await writeJson(file, [revision, ...revisions].slice(0, MAX_REVISIONS));
+      });
+    },
+    async listRevisions(recipeId) {
+      await ensureReady();
+      if (!isSafeId(recipeId)) return [];
+      const revisions = (await readJson<RecipeRevision[]>(fileFor(recipeId, historyDir))) ?? [];
+      return revisions.map((r) => ({
+        ...r,
+        snapshot: normalizeRecipe(r.snapshot as unknown as Record<string, unknown>),
+      }));
+    },
+    async listFavorites(userId) {
+      await ensureReady();
+      return (await readJson<string[]>(favoritesFile(userId))) ?? [];
+    },
+    setFavorite(userId, recipeId, favorite) {
+      return serialized(async () => {
+        const ids = new Set((await readJson<string[]>(favoritesFile(userId))) ?? []);
+        if (favorite) ids.add(recipeId);
+        else ids.delete(recipeId);
+        await writeJson(favoritesFile(userId), [...ids]);
+      });
+    },
+    async getSession(code) {
+      await ensureReady();
+      return readSession(code);
+    },
+    createSession(session) {
+      return serialized(async () => {
+        if (await readSession(session.code)) return false;
+        await writeJson(fileFor(session.code, sessionsDir), session);
+        return true;
+      });
+    },
+    updateSession(session, expectedVersion) {
+      return serialized(async () => {
+        const current = await readSession(session.code);
+        if (!current) return { status: "not-found" as const };
+        if (current.version !== expectedVersion) return { status: "conflict" as const };
+        await writeJson(fileFor(session.code, sessionsDir), session);
+        return { status: "updated" as const };
+      });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import path from "path";
+import { createFileStore } from "./file";
+import { createKvStore } from "./kv";
+import { createMemoryStore } from "./memory";
+import { RecipeStore } from "./types";
+
+export type { RecipeStore } from "./types";
+
+// Held on globalThis because dev servers bundle each route separately; a module-level variable would
+// give every route its own memory store and file-write queue.
+const storeGlobal = globalThis as typeof globalThis & { __recipeStore?: RecipeStore };
+
+// Picks the backend from RECIPE_STORE ("kv", "file" or "memory"). Without it, Vercel KV is used when
+// its credentials are present and a local directory of JSON files (RECIPE_STORE_PATH, default
+// .data/recipes) otherwise, so `npm run dev` works with no setup.
+export function getRecipeStore(): RecipeStore {
+  if (storeGlobal.__recipeStore) return storeGlobal.__recipeStore;
+  let store: RecipeStore;
+
+  const kind =
+    process.env.RECIPE_STORE || (process.env.KV_REST_API_URL ? "kv" : "file");
+
+  switch (kind) {
+    case "kv":
+      store = createKvStore();
+      break;
+    case "memory":
+      store = createMemoryStore();
+      break;
+    case "file":
+      store = createFileStore(
+        process.env.RECIPE_STORE_PATH || path.join(process.cwd(), ".data", "recipes")
+      );
+      break;
+    default:
+      throw new Error(`Unknown RECIPE_STORE "${kind}" (expected kv, file or memory)`);
+  }
+  storeGlobal.__recipeStore = store;
+  return store;
+}
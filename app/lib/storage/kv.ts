@@ -0,0 +1,245 @@
+import { kv } from "@vercel/kv";
+import { Recipe, RecipeRevision, TrashedRecipe } from "@/app/types/recipe";
+import { normalizeRecipe } from "@/app/lib/recipes";
+import { KitchenSession } from "@/app/types/timer";
+import { normalizeSession } from "@/app/lib/sessions";
+import { MAX_REVISIONS, RecipeStore, SESSION_TTL_MS, TRASH_RETENTION_MS } from "./types";
+
+// Vercel KV (Redis). Each recipe has its own key, with a set of ids as the index, so writers only
+// ever touch the recipe they're changing:
+//   recipe:<id>           the recipe JSON
+//   recipes:index         set of all recipe ids
+//   recipe:<id>:history   list of revisions, newest first, at most MAX_REVISIONS; expires with the
+//                         recipe's trash entry while it's deleted
+//   trash:<id>            a deleted recipe, expiring after TRASH_RETENTION_MS
+//   trash:index           set of trashed ids (may name expired entries until the next listTrash)
+//   favorites:<userId>    set of recipe ids the user has marked as favourites
+//   session:<code>        a kitchen session, expiring SESSION_TTL_MS after its last change
+const recipeKey = (id: string) => `recipe:${id}`;
+const historyKey = (id: string) => `recipe:${id}:history`;
+const trashKey = (id: string) => `trash:${id}`;
+const favoritesKey = (userId: string) => `favorites:${userId}`;
+const sessionKey = (code: string) => `session:${code}`;
+const SESSION_TTL_SECONDS = Math.ceil(SESSION_TTL_MS / 1000);
+const INDEX_KEY = "recipes:index";
+const TRASH_INDEX_KEY = "trash:index";
+
+// Before per-recipe keys, everything lived in one array under "recipes". It's migrated on first use
+// and kept under LEGACY_BACKUP_KEY rather than deleted.
+const LEGACY_KEY = "recipes";
+const LEGACY_BACKUP_KEY = "recipes:legacy-backup";
+const MIGRATION_LOCK_KEY = "recipes:migrating";
+
+const MGET_CHUNK = 100;
+
+// Compare-and-set on the recipe's version, atomically inside Redis.
+// Returns {0} if missing, {1, current} on a version mismatch, {2} once written.
+const UPDATE_IF_VERSION = `
+local current = redis.call('GET', KEYS[1])
+if not current then return {0} end
+local version = cjson.decode(current).version or 1
+if tonumber(version) ~= tonumber(ARGV[1]) then return {1, current} end
+redis.call('SET', KEYS[1], ARGV[2])
+return {2}
+`;
+
+// The same for a kitchen session, also restarting its expiry. Returns 0 if missing (or expired),
+// 1 on a version mismatch, 2 once written.
+const UPDATE_SESSION_IF_VERSION = `
+local current = redis.call('GET', KEYS[1])
+if not current then return 0 end
+if tonumber(cjson.decode(current).version) ~= tonumber(ARGV[1]) then return 1 end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 2
+`;
+
+// Moves a recipe into the trash, its history set to expire along with the entry. The entry is
+// assembled as a string so the recipe JSON is kept byte for byte (cjson would turn empty arrays
+// into objects). Returns the entry, or nil if missing.
+const MOVE_TO_TRASH = `
+local current = redis.call('GET', KEYS[1])
+if not current then return nil end
+local entry = '{"recipe":' .. current .. ',"deletedAt":' .. ARGV[2] .. ',"deletedBy":' .. ARGV[3] .. '}'
+redis.call('SET', KEYS[2], entry, 'EX', ARGV[4])
+redis.call('EXPIRE', KEYS[5], ARGV[4])
+redis.call('SADD', KEYS[4], ARGV[1])
+redis.call('DEL', KEYS[1])
+redis.call('SREM', KEYS[3], ARGV[1])
+return entry
+`;
+
+// Puts a trashed recipe back, unless the entry has gone or a live recipe took its id.
+// Returns 1 once restored, 0 otherwise.
+const RESTORE_FROM_TRASH = `
+if redis.call('EXISTS', KEYS[2]) == 0 then return 0 end
+if redis.call('EXISTS', KEYS[1]) == 1 then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SADD', KEYS[3], ARGV[1])
+redis.call('DEL', KEYS[2])
+redis.call('SREM', KEYS[4], ARGV[1])
+redis.call('PERSIST', KEYS[5])
+return 1
+`;
+
+// The client may or may not have deserialised JSON held inside a script's reply.
+const fromReply = <T>(value: unknown): T => (typeof value === "string" ? JSON.parse(value) : value) as T;
+
+const normalizeTrashed = (entry: TrashedRecipe): TrashedRecipe => ({
+  ...entry,
+  recipe: normalizeRecipe(entry.recipe as unknown as Record<string, unknown>),
+});
+
+let migrated: Promise<void> | null = null;
+
+async function migrateLegacy() {
+  if (!(await kv.exists(LEGACY_KEY))) return;
+
+  // Only one instance migrates; the others carry on and see the recipes as they land.
+  const locked = await kv.set(MIGRATION_LOCK_KEY, Date.now(), { nx: true, ex: 60 });
+  if (!locked) return;
+
+  try {
+    const legacy = (await kv.get<Record<string, unknown>[]>(LEGACY_KEY)) || [];
+    const tx = kv.multi();
+    for (const raw of legacy) {
+      const recipe = normalizeRecipe(raw);
+      if (!recipe.id) continue;
+      // nx: never clobber a recipe that was already written under the new layout.
+      tx.set(recipeKey(recipe.id), recipe, { nx: true });
+      tx.sadd(INDEX_KEY, recipe.id);
+    }
+    tx.rename(LEGACY_KEY, LEGACY_BACKUP_KEY);
+    await tx.exec();
+  } finally {
+    await kv.del(MIGRATION_LOCK_KEY);
+  }
+}
+
+function ensureMigrated() {
+  if (!migrated) {
+    migrated = migrateLegacy().catch((e) => {
+      migrated = null; // try again on the next request
+      throw e;
+    });
+  }
+  return migrated;
+}
+
+export function createKvStore(): RecipeStore {
+  return {
+    async list() {
+      await ensureMigrated();
+      const ids = await kv.smembers(INDEX_KEY);
+      const recipes: Recipe[] = [];
+      for (let i = 0; i < ids.length; i += MGET_CHUNK) {
+        const chunk = ids.slice(i, i + MGET_CHUNK);
+        const values = await kv.mget<(Record<string, unknown> | null)[]>(...chunk.map(recipeKey));
+        // Older entries may still be in the plain-text shape; normalise on every read.
+        for (const value of values) if (value) recipes.push(normalizeRecipe(value));
+      }
+      return recipes.sort((a, b) => a.createdAt - b.createdAt);
+    },
+    async get(id) {
+      await ensureMigrated();
+      const value = await kv.get<Record<string, unknown>>(recipeKey(id));
+      return value ? normalizeRecipe(value) : null;
+    },
+    async create(recipe) {
+      await ensureMigrated();
+      await kv.multi().set(recipeKey(recipe.id), recipe).sadd(INDEX_KEY, recipe.id).exec();
+      return recipe;
+    },
+    async update(recipe, expectedVersion) {
+      await ensureMigrated();
+      // Missing keys are reported rather than created, so an update racing a delete can't
+      // resurrect the recipe.
+      const [code, current] = await kv.eval<[number, string], [number, unknown?]>(
+        UPDATE_IF_VERSION,
+        [recipeKey(recipe.id)],
+        [expectedVersion, JSON.stringify(recipe)]
+      );
+      if (code === 0) return { status: "not-found" };
+      if (code === 1) {
+        return { status: "conflict", current: normalizeRecipe(fromReply(current)) };
+      }
+      return { status: "updated", recipe };
+    },
+    async delete(id, deletedBy) {
+      await ensureMigrated();
+      const entry = await kv.eval<[string, number, string, number], unknown>(
+        MOVE_TO_TRASH,
+        [recipeKey(id), trashKey(id), INDEX_KEY, TRASH_INDEX_KEY, historyKey(id)],
+        [id, Date.now(), JSON.stringify(deletedBy), Math.ceil(TRASH_RETENTION_MS / 1000)]
+      );
+      return entry ? normalizeTrashed(fromReply(entry)) : null;
+    },
+    async listTrash() {
+      await ensureMigrated();
+      const ids = await kv.smembers(TRASH_INDEX_KEY);
+      const entries: TrashedRecipe[] = [];
+      const expired: string[] = [];
+      for (let i = 0; i < ids.length; i += MGET_CHUNK) {
+        const chunk = ids.slice(i, i + MGET_CHUNK);
+        const values = await kv.mget<(TrashedRecipe | null)[]>(...chunk.map(trashKey));
+        values.forEach((value, j) => (value ? entries.push(normalizeTrashed(value)) : expired.push(chunk[j])));
+      }
+      // History written before it was set to expire with the trash entry goes here instead.
+      if (expired.length) {
+        await kv
+          .multi()
+          .srem(TRASH_INDEX_KEY, ...expired)
+          .del(...expired.map(historyKey))
+          .exec();
+      }
+      return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+    },
+    async restoreFromTrash(id) {
+      await ensureMigrated();
+      const entry = await kv.get<TrashedRecipe>(trashKey(id));
+      if (!entry) return null;
+      const restored = await kv.eval<[string, string], number>(
+        RESTORE_FROM_TRASH,
+        [recipeKey(id), trashKey(id), INDEX_KEY, TRASH_INDEX_KEY, historyKey(id)],
+        [id, JSON.stringify(entry.recipe)]
+      );
+      return restored === 1 ? normalizeRecipe(entry.recipe as unknown as Record<string, unknown>) : null;
+    },
+    async addRevision(revision) {
+      const key = historyKey(revision.recipeId);
+      await kv.multi().lpush(key, revision).ltrim(key, 0, MAX_REVISIONS - 1).exec();
+    },
+    async listRevisions(recipeId) {
+      const revisions = await kv.lrange<RecipeRevision>(historyKey(recipeId), 0, -1);
+      return revisions.map((r) => ({
+        ...r,
+        snapshot: normalizeRecipe(r.snapshot as unknown as Record<string, unknown>),
+      }));
+    },
+    async listFavorites(userId) {
+      return kv.smembers(favoritesKey(userId));
+    },
+    async setFavorite(userId, recipeId, favorite) {
+      if (favorite) await kv.sadd(favoritesKey(userId), recipeId);
+      else await kv.srem(favoritesKey(userId), recipeId);
+    },
+    async getSession(code) {
+      const session = await kv.get<KitchenSession>(sessionKey(code));
+      return session ? normalizeSession(session) : null;
+    },
+    async createSession(session) {
+      const created = await kv.set(sessionKey(session.code), session, {
+        nx: true,
+        ex: SESSION_TTL_SECONDS,
+      });
+      return created !== null;
+    },
+    async updateSession(session, expectedVersion) {
+      const code = await kv.eval<[number, string, number], number>(
+        UPDATE_SESSION_IF_VERSION,
+        [sessionKey(session.code)],
+        [expectedVersion, JSON.stringify(session), SESSION_TTL_SECONDS]
+      );
+      return { status: code === 0 ? "not-found" : code === 1 ? "conflict" : "updated" };
+    },
+  };
+}
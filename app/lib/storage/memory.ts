@@ -0,0 +1,105 @@
+import { Recipe, RecipeRevision, TrashedRecipe } from "@/app/types/recipe";
+import { KitchenSession } from "@/app/types/timer";
+import { MAX_REVISIONS, RecipeStore, SESSION_TTL_MS, TRASH_RETENTION_MS } from "./types";
+
+// Process-local store for tests and throwaway dev servers. Contents vanish on restart.
+export function createMemoryStore(initial: Recipe[] = []): RecipeStore {
+  const recipes = new Map(initial.map((r) => [r.id, structuredClone(r)]));
+  const trash = new Map<string, TrashedRecipe>();
+  const revisions = new Map<string, RecipeRevision[]>();
+  const favorites = new Map<string, Set<string>>();
+  const sessions = new Map<string, KitchenSession>();
+
+  const purgeTrash = () => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+    for (const [id, entry] of trash) {
+      if (entry.deletedAt >= cutoff) continue;
+      trash.delete(id);
+      revisions.delete(id);
+    }
+  };
+
+  const liveSession = (code: string) => {
+    const session = sessions.get(code);
+    if (session && session.updatedAt < Date.now() - SESSION_TTL_MS) sessions.delete(code);
+    return sessions.get(code);
+  };
+
+  return {
+    async list() {
+      return [...recipes.values()].map((r) => structuredClone(r));
+    },
+    async get(id) {
+      const recipe = recipes.get(id);
+      return recipe ? structuredClone(recipe) : null;
+    },
+    async create(recipe) {
+      recipes.set(recipe.id, structuredClone(recipe));
+      return recipe;
+    },
+    async update(recipe, expectedVersion) {
+      const current = recipes.get(recipe.id);
+      if (!current) return { status: "not-found" };
+      if (current.version !== expectedVersion) {
+        return { status: "conflict", current: structuredClone(current) };
+      }
+      recipes.set(recipe.id, structuredClone(recipe));
+      return { status: "updated", recipe };
+    },
+    async delete(id, deletedBy) {
+      const recipe = recipes.get(id);
+      if (!recipe) return null;
+      const entry = { recipe, deletedAt: Date.now(), deletedBy };
+      trash.set(id, entry);
+      recipes.delete(id);
+      return structuredClone(entry);
+    },
+    async listTrash() {
+      purgeTrash();
+      return [...trash.values()]
+        .sort((a, b) => b.deletedAt - a.deletedAt)
+        .map((e) => structuredClone(e));
+    },
+    async restoreFromTrash(id) {
+      purgeTrash();
+      const entry = trash.get(id);
+      if (!entry || recipes.has(id)) return null;
+      recipes.set(id, entry.recipe);
+      trash.delete(id);
+      return structuredClone(entry.recipe);
+    },
+    async addRevision(revision) {
+      const previous = revisions.get(revision.recipeId) ?? [];
+      const kept = [structuredClone(revision), ...previous].slice(0, MAX_REVISIONS);
+      revisions.set(revision.recipeId, kept);
+    },
+    async listRevisions(recipeId) {
+      return (revisions.get(recipeId) ?? []).map((r) => structuredClone(r));
+    },
+    async listFavorites(userId) {
+      return [...(favorites.get(userId) ?? [])];
+    },
+    async setFavorite(userId, recipeId, favorite) {
+      const ids = favorites.get(userId) ?? new Set<string>();
+      if (favorite) ids.add(recipeId);
+      else ids.delete(recipeId);
+      favorites.set(userId, ids);
+    },
+    async getSession(code) {
+      const session = liveSession(code);
+      return session ? structuredClone(session) : null;
+    },
+    async createSession(session) {
+      if (liveSession(session.code)) return false;
+      sessions.set(session.code, structuredClone(session));
+      return true;
+    },
+    async updateSession(session, expectedVersion) {
+      const current = liveSession(session.code);
+      if (!current) return { status: "not-found" };
+      if (current.version !== expectedVersion) return { status: "conflict" };
+      sessions.set(session.code, structuredClone(session));
+      return { status: "updated" };
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { Recipe, RecipeRevision, TrashedRecipe } from "@/app/types/recipe";
+import { KitchenSession } from "@/app/types/timer";
+
+export type UpdateResult =
+  | { status: "updated"; recipe: Recipe }
+  | { status: "conflict"; current: Recipe } // stored version wasn't the expected one
+  | { status: "not-found" };
+
+export type SessionUpdateResult = { status: "updated" | "conflict" | "not-found" };
+
+// Deleted recipes can be restored for this long. Their revisions go when they do.
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Revisions kept per recipe; older ones are dropped as new ones are added.
+export const MAX_REVISIONS = 100;
+
+// Kitchen sessions nobody has changed for this long are forgotten.
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// What the recipes API needs from a storage backend. Adapters return recipes already normalised
+// to the current schema, whatever shape they were stored in.
+export interface RecipeStore {
+  list(): Promise<Recipe[]>;
+  get(id: string): Promise<Recipe | null>;
+  create(recipe: Recipe): Promise<Recipe>;
+  // Compare-and-set: writes `recipe` only if the stored copy is still at `expectedVersion`.
+  update(recipe: Recipe, expectedVersion: number): Promise<UpdateResult>;
+  // Moves the recipe to the trash. Resolves to the trashed entry, or null if there was no recipe.
+  delete(id: string, deletedBy: string | null): Promise<TrashedRecipe | null>;
+
+  // Newest first. Entries expire TRASH_RETENTION_MS after deletion.
+  listTrash(): Promise<TrashedRecipe[]>;
+  // Moves a trashed recipe back. Resolves to null if it's not in the trash (or has expired) or
+  // a live recipe with the same id exists.
+  restoreFromTrash(id: string): Promise<Recipe | null>;
+
+  addRevision(revision: RecipeRevision): Promise<void>;
+  // Newest first, at most MAX_REVISIONS.
+  listRevisions(recipeId: string): Promise<RecipeRevision[]>;
+
+  // Ids of the recipes a user has marked as favourites. Ids of deleted recipes may linger.
+  listFavorites(userId: string): Promise<string[]>;
+  setFavorite(userId: string, recipeId: string, favorite: boolean): Promise<void>;
+
+  // Shared timer grids, by join code. Resolves to null once a session has expired.
+  getSession(code: string): Promise<KitchenSession | null>;
+  // Resolves to false, without writing, if the code is already in use.
+  createSession(session: KitchenSession): Promise<boolean>;
+  // Compare-and-set, like update(); each write restarts the SESSION_TTL_MS countdown.
+  updateSession(session: KitchenSession, expectedVersion: number): Promise<SessionUpdateResult>;
+}
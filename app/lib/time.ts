@@ -0,0 +1,25 @@
+// Whole-second durations as typed and shown in duration fields (countdown targets, recipe times).
+
+// "h:mm:ss" or "mm:ss".
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 1_000));
+  const hours = Math.floor(total / 3_600);
+  const minutes = Math.floor((total % 3_600) / 60);
+  const seconds = total % 60;
+  const mm = String(minutes).padStart(hours > 0 ? 2 : 1, "0");
+  const ss = String(seconds).padStart(2, "0");
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+// Accepts "25" (minutes), "1:30" (m:ss) or "1:15:00" (h:mm:ss). Returns ms, or null if unparseable.
+export function parseClock(input: string): number | null {
+  const parts = input.trim().split(":");
+  if (parts.length === 0 || parts.length > 3) return null;
+  if (parts.some((p) => !/^\d+(\.\d+)?$/.test(p))) return null;
+  const nums = parts.map(Number);
+  let seconds: number;
+  if (nums.length === 1) seconds = nums[0] * 60;
+  else if (nums.length === 2) seconds = nums[0] * 60 + nums[1];
+  else seconds = nums[0] * 3_600 + nums[1] * 60 + nums[2];
+  return seconds > 0 ? Math.round(seconds * 1_000) : null;
+}
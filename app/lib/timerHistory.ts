@@ -0,0 +1,155 @@
+import { Stopwatch, TimerRun } from "@/app/types/timer";
+import { elapsedAt, normalizeRecipeLink } from "./stopwatch";
+import { KeyValueStorage } from "./stopwatchStorage";
+
+// The log of finished timer runs, kept in localStorage next to the grid. A run is logged when its
+// timer is reset or deleted, so the time it took isn't lost with it. Like the grid, the value is a
+// versioned envelope:
+//
+//   { "version": 1, "runs": [ ... ] }   oldest run first
+//
+// Unreadable data is copied to a quarantine key before the log starts over.
+
+export const HISTORY_KEY = "timer-history-v1";
+const HISTORY_VERSION = 1;
+
+// The oldest runs are dropped beyond this, to stay well inside localStorage's quota.
+export const MAX_RUNS = 2_000;
+
+// Below this a reset is a misclick or a timer that was started by mistake, not a run worth keeping.
+const MIN_RUN_MS = 1_000;
+
+const isTime = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+// The run a timer is ending, or null if it didn't really run.
+export function runOf(sw: Stopwatch, now: number, endedBy: TimerRun["endedBy"]): TimerRun | null {
+  const elapsed = elapsedAt(sw, now);
+  if (elapsed < MIN_RUN_MS) return null;
+  const endedAt = sw.isRunning ? now : (sw.stoppedAt ?? now);
+  return {
+    id: crypto.randomUUID(),
+    name: sw.name.trim(),
+    mode: sw.mode,
+    recipe: sw.recipe,
+    // Timers saved before runs were tracked only know how long they ran.
+    startedAt: sw.runStartedAt ?? endedAt - elapsed,
+    endedAt,
+    elapsed,
+    target: sw.mode === "countdown" ? sw.duration : null,
+    maxTarget: sw.mode === "countdown" ? sw.maxDuration : null,
+    laps: sw.laps,
+    endedBy,
+  };
+}
+
+function normalizeRun(raw: unknown): TimerRun | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const run = raw as Partial<Record<keyof TimerRun, unknown>>;
+  if (typeof run.id !== "string" || !isTime(run.startedAt) || !isTime(run.endedAt)) return null;
+  if (!isTime(run.elapsed) || run.elapsed < 0) return null;
+  return {
+    id: run.id,
+    name: typeof run.name === "string" ? run.name : "",
+    mode: run.mode === "countdown" ? "countdown" : "stopwatch",
+    recipe: normalizeRecipeLink(run.recipe),
+    startedAt: run.startedAt,
+    endedAt: run.endedAt,
+    elapsed: run.elapsed,
+    target: isTime(run.target) && run.target > 0 ? run.target : null,
+    maxTarget: isTime(run.maxTarget) && run.maxTarget > 0 ? run.maxTarget : null,
+    laps: Array.isArray(run.laps) ? run.laps.filter(isTime) : [],
+    endedBy: run.endedBy === "delete" ? "delete" : "reset",
+  };
+}
+
+// Oldest first. Never throws: unreadable data is quarantined and the log reads as empty.
+export function loadHistory(storage: KeyValueStorage, now = Date.now()): TimerRun[] {
+  const raw = storage.getItem(HISTORY_KEY);
+  if (raw == null) return [];
+  try {
+    const data = JSON.parse(raw);
+    if (data?.version !== HISTORY_VERSION || !Array.isArray(data.runs)) {
+      throw new Error(`unknown history format (version ${data?.version})`);
+    }
+    return (data.runs as unknown[]).map(normalizeRun).filter((run) => run !== null);
+  } catch (e) {
+    const key = `${HISTORY_KEY}:quarantine:${now}`;
+    console.error(`Timer history couldn't be read; a copy was kept in ${key}`, e);
+    try {
+      storage.setItem(key, raw);
+      saveHistory(storage, []);
+    } catch (e) {
+      console.error("Failed to quarantine timer history", e);
+    }
+    return [];
+  }
+}
+
+function saveHistory(storage: KeyValueStorage, runs: TimerRun[]) {
+  const kept = runs.slice(-MAX_RUNS);
+  storage.setItem(HISTORY_KEY, JSON.stringify({ version: HISTORY_VERSION, runs: kept }));
+}
+
+// Read-modify-write on every call, so runs logged by other tabs in the meantime are kept.
+export function appendRun(storage: KeyValueStorage, run: TimerRun) {
+  saveHistory(storage, [...loadHistory(storage), run]);
+}
+
+export function removeRuns(storage: KeyValueStorage, ids: string[]) {
+  const removed = new Set(ids);
+  saveHistory(storage, loadHistory(storage).filter((run) => !removed.has(run.id)));
+}
+
+// Runs with the same label are the same task ("Proofing" and "proofing " included).
+export const runLabel = (run: Pick<TimerRun, "name">) => run.name.trim().toLowerCase();
+
+export type RunStats = {
+  label: string; // as most recently named
+  runs: number;
+  average: number; // ms
+  fastest: number;
+  slowest: number;
+  // Average of the countdown targets, for runs that had one, and how far over (+) or under (-)
+  // those runs went on average.
+  averageTarget: number | null;
+  overTarget: number | null;
+  // Average of the newer half of the runs minus the older half's; null with fewer than 4 runs.
+  trend: number | null;
+  recent: number[]; // elapsed of the last few runs, oldest first
+};
+
+const RECENT_RUNS = 12;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// One entry per label, most runs first. `runs` must be oldest first, as loadHistory returns them.
+export function summarizeRuns(runs: TimerRun[]): RunStats[] {
+  const groups = new Map<string, TimerRun[]>();
+  for (const run of runs) {
+    const group = groups.get(runLabel(run));
+    if (group) group.push(run);
+    else groups.set(runLabel(run), [run]);
+  }
+
+  return [...groups.values()]
+    .map((group) => {
+      const elapsed = group.map((run) => run.elapsed);
+      const targeted = group.filter((run) => run.target != null);
+      const half = Math.floor(group.length / 2);
+      return {
+        label: group[group.length - 1].name || "(unnamed)",
+        runs: group.length,
+        average: mean(elapsed),
+        fastest: Math.min(...elapsed),
+        slowest: Math.max(...elapsed),
+        averageTarget: targeted.length ? mean(targeted.map((run) => run.target!)) : null,
+        overTarget: targeted.length ? mean(targeted.map((run) => run.elapsed - run.target!)) : null,
+        trend:
+          group.length >= 4
+            ? mean(elapsed.slice(group.length - half)) - mean(elapsed.slice(0, half))
+            : null,
+        recent: elapsed.slice(-RECENT_RUNS),
+      };
+    })
+    .sort((a, b) => b.runs - a.runs || a.label.localeCompare(b.label));
+}
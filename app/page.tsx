@@ -1,155 +1,219 @@
 "use client";
 import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import CookMode from "./components/CookMode";
+import KitchenSessionBar from "./components/KitchenSessionBar";
 import RecipeManager from "./components/RecipeManager";
 import RecipeViewer from "./components/RecipeViewer";
+import { useKitchenSession } from "./hooks/useKitchenSession";
+import { useStopwatches } from "./hooks/useStopwatches";
+import { notify, playChime, primeAlerts } from "./lib/alerts";
+import { cookStepTimer, cookSteps } from "./lib/recipes";
+import { SESSION_LIMITS } from "./lib/sessions";
+import {
+  DEFAULT_COUNTDOWN,
+  displayAt,
+  elapsedAt,
+  formatElapsed,
+  isDoneAt,
+  isRingingAt,
+  isSnoozedAt,
+  lapsToCsv,
+  newCountdown,
+  newStopwatch,
+  splits,
+  startStopwatch,
+} from "./lib/stopwatch";
+import { formatClock, parseClock } from "./lib/time";
+import { Recipe } from "./types/recipe";
+import { PresetTimer, RecipeLink, Stopwatch, TimerRequest } from "./types/timer";
 
 // Basic multi-stopwatch manager for a single Next.js page (App Router)
 // - Create/Delete stopwatches
-// - Start/Stop/Reset
+// - Start/Stop/Reset, plus laps (split + cumulative) that can be exported as CSV
 // - Rename each stopwatch
-// - Persists to localStorage
-// - Timekeeping is based on Date.now(), so it stays correct across tab backgrounding or sleep
-//   and "catches up" when you return.
-
-type Stopwatch = {
-  id: string;
-  name: string;
-  isRunning: boolean;
-  startedAt: number | null; // epoch ms when last started
-  elapsed: number; // accumulated ms when NOT running
+// - Count up (stopwatch) or count down from a target duration (countdown), running into overtime
+// - Chime + system notification when a countdown finishes, with snooze and optional repeat
+// - Cook mode: step through a recipe, auto-starting each step's countdown on the grid
+// - Save the grid as a recipe's timer preset and load it back (replace or merge)
+// - Runs that end with a reset or delete go into a history log, summarised on /history
+// - Persists to localStorage in a versioned format; unreadable saves are set aside, not overwritten
+// - Other tabs of the app on this device share the grid live (see lib/stopwatchSync.ts), and other
+//   devices can too by joining a kitchen session with its code (see lib/sessions.ts)
+// - Timekeeping is based on the wall clock, so it stays correct across tab backgrounding or sleep
+//   and "catches up" when you return (see lib/stopwatch.ts for the engine, hooks/useStopwatches.ts
+//   for its state)
+
+type AlertSettings = {
+  repeat: boolean; // keep chiming every REPEAT_CHIME_MS until dismissed
 };
 
-const STORAGE_KEY = "multi-stopwatches-v1";
-
-const now = () => Date.now();
-
-function format(ms: number): string {
-  const negative = ms < 0;
-  if (negative) ms = -ms;
-  const hours = Math.floor(ms / 3_600_000);
-  const minutes = Math.floor((ms % 3_600_000) / 60_000);
-  const seconds = Math.floor((ms % 60_000) / 1_000);
-  const hundredths = Math.floor((ms % 1_000) / 10);
-  const h = hours > 0 ? String(hours).padStart(2, "0") + ":" : "";
-  const m = String(minutes).padStart(2, "0");
-  const s = String(seconds).padStart(2, "0");
-  const hs = String(hundredths).padStart(2, "0");
-  return `${negative ? "-" : ""}${h}${m}:${s}.${hs}`;
+// The recipe cook mode is showing, and the timer its Cook click started for step 1.
+type Cooking = { recipe: Recipe; firstTimerId: string | null };
+
+const ALERT_SETTINGS_KEY = "timer-alert-settings-v1";
+const REPEAT_CHIME_MS = 4_000;
+
+function downloadText(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
 }
 
 export default function Page() {
-  const [stopwatches, setStopwatches] = useState<Stopwatch[]>([]);
-  // "tick" just forces a re-render so the displayed time updates.
-  const [tick, setTick] = useState(0);
-  const intervalRef = useRef<number | null>(null);
+  const {
+    grid,
+    stopwatches,
+    setStopwatches,
+    merge,
+    adopt,
+    now,
+    clock,
+    quarantine,
+    dismissQuarantine,
+    add,
+    replaceAll,
+    remove: deleteStopwatch,
+    start: startTimer,
+    stop,
+    reset,
+    lap,
+    rename,
+    setMode,
+    setDuration,
+    dismissAlert,
+    snooze,
+  } = useStopwatches();
+  const session = useKitchenSession(grid, merge, adopt);
   const [showRecipeManager, setShowRecipeManager] = useState(false);
+  const [cooking, setCooking] = useState<Cooking | null>(null);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>({ repeat: true });
+  // id -> epoch ms of the last chime, for timers currently ringing
+  const chimedRef = useRef<Map<string, number>>(new Map());
 
-  // Load from localStorage on first mount
   useEffect(() => {
     try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as Stopwatch[];
-        setStopwatches(parsed);
-      } else {
-        setStopwatches([
-          {
-            id: crypto.randomUUID(),
-            name: "Stopwatch 1",
-            isRunning: false,
-            startedAt: null,
-            elapsed: 0,
-          },
-        ]);
-      }
+      const raw = localStorage.getItem(ALERT_SETTINGS_KEY);
+      if (raw) setAlertSettings((prev) => ({ ...prev, ...(JSON.parse(raw) as AlertSettings) }));
     } catch (e) {
-      console.error("Failed to load stopwatches", e);
+      console.error("Failed to load alert settings", e);
     }
   }, []);
 
-  // Persist to localStorage whenever state changes
-  useEffect(() => {
+  const updateAlertSettings = (next: AlertSettings) => {
+    setAlertSettings(next);
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(stopwatches));
+      localStorage.setItem(ALERT_SETTINGS_KEY, JSON.stringify(next));
     } catch (e) {
-      console.error("Failed to persist stopwatches", e);
+      console.error("Failed to persist alert settings", e);
     }
-  }, [stopwatches]);
+  };
 
-  // Lightweight render loop for the on-screen time (not the source of truth)
+  // Alerts are driven by the same wall-clock check as the display rather than counting ticks, so a
+  // countdown that expired while the tab was throttled or the machine slept still rings on wake.
   useEffect(() => {
-    // Update 50x/sec for smooth hundredths display
-    if (intervalRef.current) window.clearInterval(intervalRef.current);
-    intervalRef.current = window.setInterval(() => setTick(Date.now()), 20);
-
-    const onWake = () => setTick(Date.now());
-    document.addEventListener("visibilitychange", onWake);
-    window.addEventListener("focus", onWake);
-
-    return () => {
-      if (intervalRef.current) window.clearInterval(intervalRef.current);
-      document.removeEventListener("visibilitychange", onWake);
-      window.removeEventListener("focus", onWake);
-    };
-  }, []);
+    const chimed = chimedRef.current;
+    const ringing = new Set<string>();
+    for (const sw of stopwatches) {
+      if (!isRingingAt(sw, now)) continue;
+      ringing.add(sw.id);
+      const last = chimed.get(sw.id);
+      if (last == null) {
+        chimed.set(sw.id, now);
+        playChime();
+        if (document.hidden) {
+          notify(`${sw.name || "Timer"} is done`, `Finished ${formatClock(sw.duration)} countdown`, sw.id);
+        }
+      } else if (alertSettings.repeat && now - last >= REPEAT_CHIME_MS) {
+        chimed.set(sw.id, now);
+        playChime();
+      }
+    }
+    for (const id of chimed.keys()) {
+      if (!ringing.has(id)) chimed.delete(id);
+    }
+  }, [now, stopwatches, alertSettings.repeat]);
+
+  const addStopwatch = () =>
+    setStopwatches((prev) => [...prev, newStopwatch(`Stopwatch ${prev.length + 1}`)]);
+
+  // Returns the new timer's id so callers (cook mode) can keep track of it.
+  const addCountdown = ({ name, duration, maxDuration, autoStart, recipe }: TimerRequest) => {
+    const sw = newCountdown(name, duration, maxDuration, recipe);
+    if (autoStart) primeAlerts();
+    add(autoStart ? startStopwatch(sw, clock()) : sw);
+    return sw.id;
+  };
+
+  // Entering cook mode counts as arriving at step 1. Its timer starts here rather than when cook
+  // mode mounts, so the click that started it also lets its chime play.
+  const cook = (recipe: Recipe) => {
+    const [first] = cookSteps(recipe);
+    const timer = first && cookStepTimer(recipe, first, 0);
+    setCooking({ recipe, firstTimerId: timer ? addCountdown(timer) : null });
+  };
+
+  const timerLayout = (): PresetTimer[] =>
+    stopwatches.map(({ name, mode, duration }) => ({
+      name,
+      mode,
+      duration: mode === "countdown" ? duration : null,
+    }));
 
-  const computedElapsed = (sw: Stopwatch) => {
-    if (sw.isRunning && sw.startedAt != null) {
-      return sw.elapsed + (now() - sw.startedAt);
+  // "merge" keeps everything on the grid and only adds preset timers whose name isn't there yet.
+  const loadTimers = (
+    timers: PresetTimer[],
+    strategy: "replace" | "merge",
+    recipe: RecipeLink
+  ) => {
+    const fromPreset = (t: PresetTimer): Stopwatch => ({
+      ...newStopwatch(t.name),
+      mode: t.mode,
+      duration: t.duration ?? DEFAULT_COUNTDOWN,
+      recipe,
+    });
+    if (strategy === "replace") {
+      if (
+        stopwatches.some((sw) => sw.isRunning) &&
+        !confirm("Replace the current timers? Running timers will be stopped and logged.")
+      ) {
+        return;
+      }
+      replaceAll(timers.map(fromPreset));
+      return;
     }
-    return sw.elapsed;
+    setStopwatches((prev) => {
+      const names = new Set(prev.map((sw) => sw.name.trim().toLowerCase()));
+      return [
+        ...prev,
+        ...timers.filter((t) => !names.has(t.name.trim().toLowerCase())).map(fromPreset),
+      ];
+    });
   };
 
-  const addStopwatch = () =>
-    setStopwatches((prev) => [
-      ...prev,
-      {
-        id: crypto.randomUUID(),
-        name: `Stopwatch ${prev.length + 1}`,
-        isRunning: false,
-        startedAt: null,
-        elapsed: 0,
-      },
-    ]);
-
-  const deleteStopwatch = (id: string) =>
-    setStopwatches((prev) => prev.filter((sw) => sw.id !== id));
-
-  const start = (id: string) =>
-    setStopwatches((prev) =>
-      prev.map((sw) =>
-        sw.id === id && !sw.isRunning
-          ? { ...sw, isRunning: true, startedAt: now() }
-          : sw
-      )
-    );
-
-  const stop = (id: string) =>
-    setStopwatches((prev) =>
-      prev.map((sw) => {
-        if (sw.id === id && sw.isRunning && sw.startedAt != null) {
-          return {
-            ...sw,
-            isRunning: false,
-            elapsed: sw.elapsed + (now() - sw.startedAt),
-            startedAt: null,
-          };
-        }
-        return sw;
-      })
-    );
-
-  const reset = (id: string) =>
-    setStopwatches((prev) =>
-      prev.map((sw) =>
-        sw.id === id
-          ? { ...sw, elapsed: 0, startedAt: null, isRunning: false }
-          : sw
-      )
-    );
-
-  const rename = (id: string, name: string) =>
-    setStopwatches((prev) => prev.map((sw) => (sw.id === id ? { ...sw, name } : sw)));
+  const start = (id: string) => {
+    // Starting is the user gesture that lets the chime play and the notification prompt appear.
+    if (stopwatches.some((sw) => sw.id === id && sw.mode === "countdown")) primeAlerts();
+    startTimer(id);
+  };
+
+  const joinSession = async (code: string) => {
+    if (
+      stopwatches.some((sw) => elapsedAt(sw, clock()) > 0) &&
+      !confirm("Join the session? The timers on this device will be replaced by the session's.")
+    ) {
+      return null;
+    }
+    return session.join(code);
+  };
+
+  const exportLaps = (sw: Stopwatch) => {
+    const slug = (sw.name || "timer").trim().toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadText(`${slug || "timer"}-laps.csv`, lapsToCsv(sw, elapsedAt(sw, clock())), "text/csv");
+  };
 
   return (
     <main className="container">
@@ -167,32 +231,145 @@ export default function Page() {
         <>
           <header className="top">
             <h1>Kitchen Timer Pro</h1>
-            <button className="primary" onClick={addStopwatch} aria-label="Add a stopwatch">
-              Add Stopwatch
-            </button>
+            <nav className="top-actions">
+              <Link href="/history" className="history-link">
+                History
+              </Link>
+              <button className="primary" onClick={addStopwatch} aria-label="Add a stopwatch">
+                Add Stopwatch
+              </button>
+            </nav>
           </header>
 
           <p className="hint">
             Set multiple timers for all your cooking tasks while following your favorite recipes.
           </p>
 
-          <RecipeViewer onManageRecipes={() => setShowRecipeManager(true)} />
+          {quarantine && (
+            <div className="storage-warning" role="alert">
+              Some saved timers couldn&apos;t be loaded ({quarantine.reason}). A copy was kept in
+              this browser&apos;s storage under <code>{quarantine.key}</code>.
+              <button onClick={dismissQuarantine}>Dismiss</button>
+            </div>
+          )}
+
+          <KitchenSessionBar
+            code={session.code}
+            status={session.status}
+            error={session.error}
+            onStart={session.start}
+            onJoin={joinSession}
+            onLeave={session.leave}
+            onDismissError={session.dismissError}
+          />
+
+          <label className="setting">
+            <input
+              type="checkbox"
+              checked={alertSettings.repeat}
+              onChange={(e) => updateAlertSettings({ ...alertSettings, repeat: e.target.checked })}
+            />
+            Keep chiming until a finished countdown is dismissed
+          </label>
+
+          {cooking ? (
+            <CookMode
+              // A different recipe starts a fresh walkthrough.
+              key={cooking.recipe.id}
+              recipe={cooking.recipe}
+              onStartTimer={addCountdown}
+              firstTimerId={cooking.firstTimerId}
+              timerIds={stopwatches.map((sw) => sw.id)}
+              onExit={() => setCooking(null)}
+            />
+          ) : (
+            <RecipeViewer
+              onManageRecipes={() => setShowRecipeManager(true)}
+              onStartTimer={addCountdown}
+              onCook={cook}
+              getTimerLayout={timerLayout}
+              onLoadTimers={loadTimers}
+            />
+          )}
 
           <section className="grid">
         {stopwatches.map((sw) => (
-          <article key={sw.id} className={`card ${sw.isRunning ? "running" : ""}`}>
+          <article
+            key={sw.id}
+            className={`card ${sw.isRunning ? "running" : ""} ${isDoneAt(sw, now) ? "done" : ""} ${
+              isRingingAt(sw, now) ? "ringing" : ""
+            }`}
+          >
             <input
               className="name"
               value={sw.name}
+              maxLength={SESSION_LIMITS.name}
               onChange={(e) => rename(sw.id, e.target.value)}
               placeholder="Label (e.g., Salmon cooking time)"
               aria-label="Stopwatch name"
             />
 
+            <div className="mode" role="group" aria-label="Timer mode">
+              <button
+                className={sw.mode === "stopwatch" ? "active" : ""}
+                onClick={() => setMode(sw.id, "stopwatch")}
+                aria-pressed={sw.mode === "stopwatch"}
+              >
+                Stopwatch
+              </button>
+              <button
+                className={sw.mode === "countdown" ? "active" : ""}
+                onClick={() => setMode(sw.id, "countdown")}
+                aria-pressed={sw.mode === "countdown"}
+              >
+                Countdown
+              </button>
+              {sw.mode === "countdown" && (
+                <input
+                  // Remount when the stored target changes so the field reflects it.
+                  key={sw.duration}
+                  className="target"
+                  defaultValue={formatClock(sw.duration)}
+                  disabled={sw.isRunning}
+                  onBlur={(e) => {
+                    const ms = parseClock(e.target.value);
+                    if (ms != null) setDuration(sw.id, ms);
+                    else e.target.value = formatClock(sw.duration);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                  }}
+                  title="Target duration (mm:ss or h:mm:ss)"
+                  aria-label="Countdown duration"
+                />
+              )}
+            </div>
+
             <div className="time" aria-live="polite">
-              {format(computedElapsed(sw))}
+              {formatElapsed(displayAt(sw, now))}
             </div>
 
+            {sw.mode === "countdown" && (
+              <div className="status">
+                {isDoneAt(sw, now) ? "Done! Overtime" : `of ${formatClock(sw.duration)}`}
+                {sw.maxDuration != null && (
+                  <span className="range"> · recipe allows up to {formatClock(sw.maxDuration)}</span>
+                )}
+                {isDoneAt(sw, now) && isSnoozedAt(sw, now) && " (snoozed)"}
+              </div>
+            )}
+
+            {isDoneAt(sw, now) && !sw.alertAcknowledged && (
+              <div className="alert-actions">
+                <button className="primary" onClick={() => dismissAlert(sw.id)}>
+                  Dismiss
+                </button>
+                <button onClick={() => snooze(sw.id)} title="Silence for one minute">
+                  Snooze 1 min
+                </button>
+              </div>
+            )}
+
             <div className="actions">
               {sw.isRunning ? (
                 <button
@@ -212,10 +389,27 @@ export default function Page() {
                 </button>
               )}
 
-              <button onClick={() => reset(sw.id)} title="Reset to 00:00.00">
+              <button
+                onClick={() => lap(sw.id)}
+                disabled={!sw.isRunning}
+                aria-label={`Record a lap for ${sw.name}`}
+              >
+                Lap
+              </button>
+
+              <button
+                onClick={() => reset(sw.id)}
+                title={`Reset to ${formatElapsed(sw.mode === "countdown" ? sw.duration : 0)}`}
+              >
                 Reset
               </button>
 
+              {sw.laps.length > 0 && (
+                <button onClick={() => exportLaps(sw)} title="Download timer and laps as CSV">
+                  Export
+                </button>
+              )}
+
               <button
                 className="danger"
                 onClick={() => deleteStopwatch(sw.id)}
@@ -225,6 +419,8 @@ export default function Page() {
                 Delete
               </button>
             </div>
+
+            {sw.laps.length > 0 && <LapTable laps={sw.laps} />}
           </article>
         ))}
           </section>
@@ -235,13 +431,32 @@ export default function Page() {
         .container { max-width: 960px; margin: 0 auto; padding: 24px; font-family: system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif; }
         .top { display: flex; align-items: center; justify-content: space-between; gap: 12px; margin-bottom: 10px; }
         h1 { margin: 0; font-size: 24px; font-weight: 800; letter-spacing: -0.02em; }
+        .top-actions { display: flex; align-items: center; gap: 8px; }
+        .top-actions :global(.history-link) { font-weight: 600; color: #2563eb; text-decoration: none; padding: 8px 6px; }
         .hint { color: #6b7280; margin: 0 0 18px; }
         .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(260px, 1fr)); gap: 16px; }
         .card { background: #fff; border: 1px solid #e5e7eb; border-radius: 16px; padding: 14px; box-shadow: 0 2px 8px rgba(0,0,0,0.04); }
         .card.running { border-color: #22c55e; box-shadow: 0 6px 18px rgba(34,197,94,0.15); }
+        .card.done { border-color: #ef4444; box-shadow: 0 6px 18px rgba(239,68,68,0.2); }
+        .card.done .time { color: #dc2626; }
+        .card.ringing { animation: ring 1s ease-in-out infinite; }
+        @keyframes ring { 50% { box-shadow: 0 0 0 6px rgba(239,68,68,0.35); } }
         .name { width: 100%; font-size: 14px; border: 1px solid #e5e7eb; border-radius: 10px; padding: 8px 10px; margin-bottom: 10px; }
         .time { font-variant-numeric: tabular-nums; font-size: 32px; line-height: 1.2; font-weight: 800; margin: 4px 0 12px; }
+        .mode { display: flex; gap: 6px; align-items: center; margin-bottom: 4px; }
+        .mode button { padding: 4px 10px; font-size: 12px; font-weight: 600; }
+        .mode button.active { background: #111827; color: white; border-color: #111827; }
+        .target { width: 84px; margin-left: auto; font-size: 13px; font-variant-numeric: tabular-nums; border: 1px solid #e5e7eb; border-radius: 8px; padding: 4px 8px; text-align: right; }
+        .target:disabled { opacity: 0.6; }
+        .status { color: #6b7280; font-size: 13px; margin: -8px 0 12px; }
+        .card.done .status { color: #dc2626; font-weight: 700; }
+        .range { color: #b45309; font-weight: 600; }
+        .alert-actions { display: flex; gap: 8px; margin-bottom: 12px; }
+        .storage-warning { display: flex; flex-wrap: wrap; align-items: center; gap: 8px; background: #fffbeb; border: 1px solid #f59e0b; color: #92400e; border-radius: 12px; padding: 10px 12px; margin: -8px 0 18px; font-size: 14px; }
+        .storage-warning button { margin-left: auto; padding: 4px 10px; font-size: 13px; }
+        .setting { display: flex; align-items: center; gap: 8px; color: #6b7280; font-size: 14px; margin: -8px 0 18px; }
         .actions { display: flex; gap: 8px; flex-wrap: wrap; }
+        button:disabled { opacity: 0.5; cursor: default; }
         button { appearance: none; border: 1px solid #e5e7eb; background: #f9fafb; border-radius: 9999px; padding: 8px 14px; font-weight: 700; cursor: pointer; }
         button:hover { background: #f3f4f6; }
         button.primary { background: #111827; color: white; border-color: #111827; }
@@ -253,8 +468,13 @@ export default function Page() {
         @media (prefers-color-scheme: dark) {
           .container { background: #0b0b0c; color: #e5e7eb; }
           .card { background: #111214; border-color: #26272b; }
-          .name { background: #0b0b0c; border-color: #26272b; color: #e5e7eb; }
-          .hint { color: #9ca3af; }
+          .name, .target { background: #0b0b0c; border-color: #26272b; color: #e5e7eb; }
+          .mode button.active { background: #e5e7eb; color: #111827; border-color: #e5e7eb; }
+          .card.done { border-color: #ef4444; }
+          .card.done .time, .card.done .status { color: #f87171; }
+          .hint, .setting { color: #9ca3af; }
+          .top-actions :global(.history-link) { color: #60a5fa; }
+          .storage-warning { background: #2b1d0f; border-color: #b45309; color: #fbbf24; }
           button { border-color: #26272b; background: #1a1b1e; color: #e5e7eb; }
           button:hover { background: #232428; }
           button.primary { background: #e5e7eb; color: #111827; border-color: #e5e7eb; }
@@ -266,3 +486,56 @@ export default function Page() {
     </main>
   );
 }
+
+
+// Newest lap first; fastest/slowest splits are only meaningful once there are two to compare.
+function LapTable({ laps }: { laps: number[] }) {
+  const split = splits(laps);
+  const fastest = split.length > 1 ? Math.min(...split) : null;
+  const slowest = split.length > 1 ? Math.max(...split) : null;
+
+  return (
+    <div className="laps">
+      <table>
+        <thead>
+          <tr>
+            <th>Lap</th>
+            <th>Split</th>
+            <th>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {split
+            .map((ms, i) => ({ ms, i }))
+            .reverse()
+            .map(({ ms, i }) => (
+              <tr
+                key={i}
+                className={ms === fastest ? "fastest" : ms === slowest ? "slowest" : ""}
+              >
+                <td>{i + 1}</td>
+                <td>{formatElapsed(ms)}</td>
+                <td>{formatElapsed(laps[i])}</td>
+              </tr>
+            ))}
+        </tbody>
+      </table>
+
+      <style jsx>{`
+        .laps { max-height: 160px; overflow-y: auto; margin-top: 12px; border-top: 1px solid #e5e7eb; }
+        table { width: 100%; border-collapse: collapse; font-size: 13px; font-variant-numeric: tabular-nums; }
+        th { position: sticky; top: 0; background: #fff; text-align: left; color: #6b7280; font-weight: 600; padding: 6px 4px; }
+        td { padding: 4px; border-top: 1px solid #f3f4f6; }
+        tr.fastest td { color: #15803d; font-weight: 700; }
+        tr.slowest td { color: #b91c1c; font-weight: 700; }
+        @media (prefers-color-scheme: dark) {
+          .laps { border-color: #26272b; }
+          th { color: #9ca3af; background: #111214; }
+          td { border-color: #1a1b1e; }
+          tr.fastest td { color: #4ade80; }
+          tr.slowest td { color: #f87171; }
+        }
+      `}</style>
+    </div>
+  );
+}
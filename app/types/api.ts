@@ -0,0 +1,21 @@
+// The error body every API route responds with: { error: ApiErrorBody }. Some errors
+// carry more alongside, like the stored recipe on a 409.
+
+export type ApiErrorCode =
+  | "invalid_json"
+  | "payload_too_large"
+  | "validation_failed"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "internal";
+
+// Field path ("title", "ingredients[2].item") → what's wrong with it.
+export type FieldErrors = Record<string, string>;
+
+export type ApiErrorBody = {
+  code: ApiErrorCode;
+  message: string;
+  fields?: FieldErrors;
+};
@@ -1,7 +1,104 @@
+import { PresetTimer } from "./timer";
+
+export type Ingredient = {
+  quantity: string; // free text so "1 1/2", "2-3" and "a pinch" all fit
+  unit: string;
+  item: string;
+  note: string;
+};
+
+export type RecipeStep = {
+  text: string;
+  duration: number | null; // ms
+};
+
 export type Recipe = {
   id: string;
   title: string;
-  content: string;
+  content: string; // freeform body; all that plain-text recipes had
+  servings: number | null;
+  prepTime: number | null; // ms
+  cookTime: number | null; // ms
+  ingredients: Ingredient[];
+  steps: RecipeStep[];
+  timers: PresetTimer[]; // saved stopwatch layout for this recipe
+  tags: string[]; // lowercase, no duplicates
+  category: string | null;
+  version: number; // bumped on every save; PUT must send the version it edited
+  ownerId: string | null; // creator's user id; null for recipes from before sign-in (admins only)
   createdAt: number;
   updatedAt: number;
-};
\ No newline at end of file
+};
+
+// The editable part of a recipe, as sent to POST/PUT /api/recipes.
+export type RecipeInput = Omit<Recipe, "id" | "version" | "ownerId" | "createdAt" | "updatedAt">;
+
+export type RevisionAction = "create" | "update" | "restore" | "delete";
+
+// One entry in a recipe's history: the full recipe as it was after the action.
+export type RecipeRevision = {
+  id: string;
+  recipeId: string;
+  action: RevisionAction;
+  authorId: string | null;
+  savedAt: number;
+  snapshot: Recipe;
+};
+
+// A deleted recipe waiting in the trash; it can be restored until it expires.
+export type TrashedRecipe = {
+  recipe: Recipe;
+  deletedAt: number;
+  deletedBy: string | null;
+};
+
+export type RecipeSort = "title" | "updatedAt" | "createdAt";
+
+// Query for GET /api/recipes. Every field is optional in the URL; see parseRecipeQuery.
+export type RecipeQuery = {
+  q: string; // words that must all appear in the title, ingredients, steps or notes
+  tag: string | null;
+  category: string | null;
+  favorites: boolean; // only the signed-in user's favourites
+  sort: RecipeSort;
+  order: "asc" | "desc";
+  cursor: string | null; // from a previous page's nextCursor
+  limit: number;
+};
+
+export type RecipePage = {
+  recipes: Recipe[];
+  nextCursor: string | null; // null on the last page
+};
+
+// GET /api/recipes/export. `version` is the bundle format's, bumped if its shape ever changes.
+export type RecipeBundle = {
+  format: "recipe-bundle";
+  version: number;
+  exportedAt: number;
+  recipes: Recipe[];
+};
+
+// What POST /api/recipes/import does with a recipe whose id or title is already taken.
+export type ImportStrategy = "skip" | "overwrite" | "rename";
+
+export type ImportAction = "create" | "overwrite" | "rename" | "skip" | "invalid";
+
+export type ImportItem = {
+  index: number; // position in the bundle
+  title: string;
+  action: ImportAction;
+  duplicateOf: { id: string; title: string; matchedBy: "id" | "title" } | null;
+  newTitle: string | null; // for "rename"
+  reason: string | null; // why it's skipped or invalid
+};
+
+export type ImportSummary = {
+  dryRun: boolean;
+  strategy: ImportStrategy;
+  counts: Record<ImportAction, number>;
+  items: ImportItem[];
+};
+
+// GET /api/recipes/tags: every tag in use and how many recipes have it.
+export type TagCount = { tag: string; count: number };
@@ -0,0 +1,70 @@
+export type TimerMode = "stopwatch" | "countdown";
+
+// One entry of a recipe's saved timer layout; the grid order is the array order.
+export type PresetTimer = {
+  name: string;
+  mode: TimerMode;
+  duration: number | null; // countdown target in ms
+};
+
+// The recipe a timer was started from, kept with the timer and its history.
+export type RecipeLink = {
+  id: string;
+  title: string; // as it was then, so history still reads right after a rename or delete
+};
+
+// A request from elsewhere in the app (e.g. a recipe) to add a countdown to the stopwatch grid.
+export type TimerRequest = {
+  name: string;
+  duration: number; // ms
+  maxDuration?: number; // ms; upper bound when the recipe gives a range ("2-3 minutes")
+  autoStart?: boolean;
+  recipe?: RecipeLink;
+};
+
+// One timer on the grid. Running time isn't stored: it's derived from startedAt and the clock (see
+// app/lib/stopwatch.ts), so it stays right across backgrounding and sleep.
+export type Stopwatch = {
+  id: string;
+  name: string;
+  mode: TimerMode;
+  isRunning: boolean;
+  startedAt: number | null; // epoch ms when last started
+  elapsed: number; // accumulated ms when NOT running
+  duration: number; // countdown target in ms (kept while in stopwatch mode so toggling back restores it)
+  maxDuration: number | null; // ms; upper bound when created from a recipe range ("2-3 minutes")
+  alertAcknowledged: boolean; // user dismissed the "done" alert for the current run
+  snoozedUntil: number | null; // epoch ms; the alert stays quiet until then
+  laps: number[]; // cumulative elapsed ms at each Lap press, oldest first
+  recipe: RecipeLink | null;
+  runStartedAt: number | null; // epoch ms of the first start since the last reset
+  stoppedAt: number | null; // epoch ms of the last stop
+  updatedAt: number; // epoch ms of the last change, for merging with other tabs (0 = never saved)
+};
+
+// A stopwatch grid kept on the server so several devices can share it (see app/lib/sessions.ts).
+// The stopwatches and tombstones merge the same way as between tabs (app/lib/stopwatchSync.ts).
+export type KitchenSession = {
+  code: string; // what other devices enter to join, e.g. "K7M2QX"
+  version: number; // bumped on every save, for compare-and-set
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms; the session expires a while after this
+  stopwatches: Stopwatch[];
+  deleted: Record<string, number>; // stopwatch id -> epoch ms it was deleted
+};
+
+// A finished run of a timer (it was reset or deleted), as kept in the history log
+// (app/lib/timerHistory.ts).
+export type TimerRun = {
+  id: string;
+  name: string;
+  mode: TimerMode;
+  recipe: RecipeLink | null;
+  startedAt: number; // epoch ms of the first start
+  endedAt: number; // epoch ms it was stopped, or reset/deleted while running
+  elapsed: number; // ms actually run
+  target: number | null; // countdown duration in ms: what the recipe (or the cook) expected
+  maxTarget: number | null; // ms; upper end of the recipe's range, if it gave one
+  laps: number[];
+  endedBy: "reset" | "delete";
+};
@@ -0,0 +1,7 @@
+export type Role = "admin" | "user";
+
+export type User = {
+  id: string; // the username; recipes reference it as ownerId
+  username: string;
+  role: Role;
+};